@@ -0,0 +1,85 @@
+/**
+ * RNG statistical quality report.
+ *
+ *   npm run rng-quality -- --generator mulberry32 --generator math-random --seeds 64 --out rng-report.md
+ *
+ * Runs every test in src/RngQuality.ts on each generator across many seeds.
+ * Exit code: 0 when no selected generator fails a gating test, 1 otherwise,
+ * 2 on bad arguments.
+ */
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { GENERATORS, GeneratorDef, assessGenerator, qualityMarkdown } from '../src/RngQuality';
+
+const USAGE = `Usage: rng-quality [options]
+
+  --generator <id>     Generator to test; repeatable. Default: mulberry32.
+  --seeds <n>          Seeds per test (consecutive). Default: 32.
+  --first-seed <n>     First seed. Default: 1.
+  --samples <n>        Base draws per test and seed. Default: 100000.
+  --alpha <x>          Per-seed significance level. Default: 0.01.
+  --format <md|json>   Report format. Default: md.
+  --out <file>         Write the report to a file instead of stdout.
+  --help               Show this help.
+
+Generators: ${Object.keys(GENERATORS).join(', ')}`;
+
+function main(): number {
+  let args;
+  try {
+    args = parseArgs({
+      options: {
+        generator:    { type: 'string', multiple: true },
+        seeds:        { type: 'string', default: '32' },
+        'first-seed': { type: 'string', default: '1' },
+        samples:      { type: 'string', default: '100000' },
+        alpha:        { type: 'string', default: '0.01' },
+        format:       { type: 'string', default: 'md' },
+        out:          { type: 'string' },
+        help:         { type: 'boolean', default: false },
+      },
+    }).values;
+  } catch (err) {
+    return usageError((err as Error).message);
+  }
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const seeds = Number(args.seeds);
+  const firstSeed = Number(args['first-seed']);
+  const samples = Number(args.samples);
+  const alpha = Number(args.alpha);
+  if (!Number.isInteger(seeds) || seeds <= 0) return usageError(`--seeds must be a positive integer, got "${args.seeds}"`);
+  if (!Number.isInteger(firstSeed) || firstSeed < 0) return usageError(`--first-seed must be an integer ≥ 0, got "${args['first-seed']}"`);
+  if (!Number.isInteger(samples) || samples < 100) return usageError(`--samples must be an integer ≥ 100, got "${args.samples}"`);
+  if (!(alpha > 0 && alpha < 1)) return usageError(`--alpha must be in (0, 1), got "${args.alpha}"`);
+  if (args.format !== 'json' && args.format !== 'md') return usageError(`--format must be json or md, got "${args.format}"`);
+
+  const generators: GeneratorDef[] = [];
+  for (const id of args.generator ?? ['mulberry32']) {
+    if (!GENERATORS[id]) return usageError(`unknown generator "${id}"`);
+    generators.push(GENERATORS[id]);
+  }
+
+  const reports = generators.map((g) => {
+    const started = Date.now();
+    const report = assessGenerator(g, { seeds, firstSeed, samples, alpha });
+    console.error(`${report.verdict.toUpperCase()} ${g.id} (${Date.now() - started} ms)`);
+    return report;
+  });
+
+  const output = args.format === 'json' ? JSON.stringify(reports, null, 2) + '\n' : qualityMarkdown(reports);
+  if (args.out) writeFileSync(args.out, output);
+  else process.stdout.write(output);
+
+  return reports.some((r) => r.verdict === 'fail') ? 1 : 0;
+}
+
+function usageError(message: string): number {
+  console.error(`rng-quality: ${message}\n\n${USAGE}`);
+  return 2;
+}
+
+process.exitCode = main();
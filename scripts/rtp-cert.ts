@@ -0,0 +1,102 @@
+/**
+ * RTP certification CLI.
+ *
+ *   npm run rtp-cert -- --config rtp-95 --rounds 5000000 --tolerance 0.005 --format md
+ *
+ * Simulates each config from a fixed seed and reports measured RTP with
+ * confidence intervals. Exit code: 0 when every config is within tolerance of
+ * its targetRtp, 1 when any is outside, 2 on bad arguments or config files.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { PROBABILITY_CONFIGS, ProbabilityConfig, parseProbabilityConfig } from '../src/ProbabilityConfig';
+import { DEFAULT_SIMULATION_SEED } from '../src/Simulation';
+import { CertificationReport, certificationJson, certificationMarkdown, certifyRtp } from '../src/RtpCertification';
+
+const USAGE = `Usage: rtp-cert [options]
+
+  --config <id|file.json>  Bundled config id, path to a config JSON, or "all".
+                           Repeatable. Default: all bundled configs.
+  --rounds <n>             Rounds per config. Default: 1000000.
+  --seed <n>               Simulation seed (decimal or 0x hex). Default: 0x${DEFAULT_SIMULATION_SEED.toString(16)}.
+  --tolerance <x>          Allowed |measured − target| RTP, as a fraction. Default: 0.01.
+  --format <json|md>       Report format. Default: md.
+  --out <file>             Write the report to a file instead of stdout.
+  --help                   Show this help.
+
+Bundled configs: ${Object.keys(PROBABILITY_CONFIGS).join(', ')}`;
+
+function main(): number {
+  let args;
+  try {
+    args = parseArgs({
+      options: {
+        config:    { type: 'string', multiple: true },
+        rounds:    { type: 'string', default: '1000000' },
+        seed:      { type: 'string', default: String(DEFAULT_SIMULATION_SEED) },
+        tolerance: { type: 'string', default: '0.01' },
+        format:    { type: 'string', default: 'md' },
+        out:       { type: 'string' },
+        help:      { type: 'boolean', default: false },
+      },
+    }).values;
+  } catch (err) {
+    return usageError((err as Error).message);
+  }
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const rounds = Number(args.rounds);
+  const seed = Number(args.seed);
+  const tolerance = Number(args.tolerance);
+  if (!Number.isInteger(rounds) || rounds <= 0) return usageError(`--rounds must be a positive integer, got "${args.rounds}"`);
+  if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) return usageError(`--seed must be a 32-bit unsigned integer, got "${args.seed}"`);
+  if (!(tolerance >= 0)) return usageError(`--tolerance must be a number ≥ 0, got "${args.tolerance}"`);
+  if (args.format !== 'json' && args.format !== 'md') return usageError(`--format must be json or md, got "${args.format}"`);
+
+  let configs: ProbabilityConfig[];
+  try {
+    configs = resolveConfigs(args.config ?? ['all']);
+  } catch (err) {
+    return usageError((err as Error).message);
+  }
+
+  const reports: CertificationReport[] = configs.map((config) => {
+    const started = Date.now();
+    const report = certifyRtp(config, { rounds, seed, tolerance });
+    console.error(`${report.passed ? 'PASS' : 'FAIL'} ${config.id}: RTP ${(report.measuredRtp * 100).toFixed(3)}% `
+      + `(target ${(report.targetRtp * 100).toFixed(2)}%, ${Date.now() - started} ms)`);
+    return report;
+  });
+
+  const output = args.format === 'json' ? certificationJson(reports) + '\n' : certificationMarkdown(reports);
+  if (args.out) writeFileSync(args.out, output);
+  else process.stdout.write(output);
+
+  return reports.every((r) => r.passed) ? 0 : 1;
+}
+
+/** Config ids, "all", or paths to JSON files (validated like any other config). */
+function resolveConfigs(specs: string[]): ProbabilityConfig[] {
+  return specs.flatMap((spec) => {
+    if (spec === 'all') return Object.values(PROBABILITY_CONFIGS);
+    if (PROBABILITY_CONFIGS[spec]) return [PROBABILITY_CONFIGS[spec]];
+    if (spec.endsWith('.json')) {
+      try {
+        return [parseProbabilityConfig(JSON.parse(readFileSync(spec, 'utf8')))];
+      } catch (err) {
+        throw new Error(`${spec}: ${(err as Error).message}`);
+      }
+    }
+    throw new Error(`Unknown config "${spec}" (not a bundled id or a .json file)`);
+  });
+}
+
+function usageError(message: string): number {
+  console.error(`rtp-cert: ${message}\n\n${USAGE}`);
+  return 2;
+}
+
+process.exitCode = main();
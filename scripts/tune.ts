@@ -0,0 +1,127 @@
+/**
+ * Tuning solver CLI.
+ *
+ *   npm run tune -- --target 0.96 --min-miss 0.05 --max-collapse 0.25 --id rtp-96 --out src/configs/rtp-96.json
+ *
+ * Solves the tuning multipliers of a base config for an exact target RTP,
+ * confirms the result by simulation, prints the config JSON (stdout or
+ * --out) and the tuning report (stderr).
+ * Exit code: 0 when solved and confirmed (or confirmation skipped), 1 when
+ * the simulation does not confirm the exact RTP, 2 on bad arguments, config
+ * files or an unreachable target.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { DEFAULT_PROBABILITY_CONFIG, PROBABILITY_CONFIGS, ProbabilityConfig, parseProbabilityConfig } from '../src/ProbabilityConfig';
+import { TuningKnob, TuningSolution, formatTuningReport, solveTuning } from '../src/TuningSolver';
+
+const KNOBS: TuningKnob[] = ['collapseMultiplier', 'hitWeightMultiplier', 'missWeightMultiplier'];
+
+const USAGE = `Usage: tune --target <rtp> [options]
+
+  --target <x>             Target RTP as a fraction, e.g. 0.95. Required.
+  --base <id|file.json>    Config to start from. Default: ${DEFAULT_PROBABILITY_CONFIG.id}.
+  --min-miss <x>           Lowest allowed first-plane miss rate. Default: 0.
+  --max-collapse <x>       Highest allowed per-round collapse rate. Default: 1.
+  --knob <name>            Knob the solver may move; repeatable. One of
+                           ${KNOBS.join(', ')}. Default: all.
+  --confirm-rounds <n>     Rounds for the confirming simulation; 0 skips it. Default: 200000.
+  --id <id>                id of the output config. Default: <base>@<target>.
+  --label <label>          label of the output config.
+  --out <file>             Write the config JSON to a file instead of stdout.
+  --help                   Show this help.
+
+Bundled configs: ${Object.keys(PROBABILITY_CONFIGS).join(', ')}`;
+
+function main(): number {
+  let args;
+  try {
+    args = parseArgs({
+      options: {
+        target:           { type: 'string' },
+        base:             { type: 'string', default: DEFAULT_PROBABILITY_CONFIG.id },
+        'min-miss':       { type: 'string', default: '0' },
+        'max-collapse':   { type: 'string', default: '1' },
+        knob:             { type: 'string', multiple: true },
+        'confirm-rounds': { type: 'string', default: '200000' },
+        id:               { type: 'string' },
+        label:            { type: 'string' },
+        out:              { type: 'string' },
+        help:             { type: 'boolean', default: false },
+      },
+    }).values;
+  } catch (err) {
+    return usageError((err as Error).message);
+  }
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (args.target === undefined) return usageError('--target is required');
+  const target = Number(args.target);
+  const minMiss = Number(args['min-miss']);
+  const maxCollapse = Number(args['max-collapse']);
+  const confirmRounds = Number(args['confirm-rounds']);
+  if (!(target > 0)) return usageError(`--target must be a number > 0, got "${args.target}"`);
+  if (!(minMiss >= 0 && minMiss < 1)) return usageError(`--min-miss must be in [0, 1), got "${args['min-miss']}"`);
+  if (!(maxCollapse >= 0 && maxCollapse <= 1)) return usageError(`--max-collapse must be in [0, 1], got "${args['max-collapse']}"`);
+  if (!Number.isInteger(confirmRounds) || confirmRounds < 0) {
+    return usageError(`--confirm-rounds must be an integer ≥ 0, got "${args['confirm-rounds']}"`);
+  }
+  const unknown = (args.knob ?? []).find((k) => !KNOBS.includes(k as TuningKnob));
+  if (unknown !== undefined) return usageError(`Unknown knob "${unknown}"`);
+
+  let base: ProbabilityConfig;
+  try {
+    base = resolveConfig(args.base);
+  } catch (err) {
+    return usageError((err as Error).message);
+  }
+
+  let solution: TuningSolution;
+  try {
+    solution = solveTuning(target, base, {
+      minMissRate: minMiss,
+      maxCollapseRate: maxCollapse,
+      knobs: args.knob as TuningKnob[] | undefined,
+      confirmRounds,
+    });
+  } catch (err) {
+    console.error(`tune: ${(err as Error).message}`);
+    return 2;
+  }
+
+  const config: ProbabilityConfig = {
+    ...solution.config,
+    id: args.id ?? solution.config.id,
+    label: args.label ?? solution.config.label,
+  };
+  console.error(formatTuningReport({ ...solution, config }));
+
+  const output = JSON.stringify(config, null, 2) + '\n';
+  if (args.out) writeFileSync(args.out, output);
+  else process.stdout.write(output);
+
+  return solution.confirmed === false ? 1 : 0;
+}
+
+/** A bundled config id or a path to a config JSON (validated like any other config). */
+function resolveConfig(spec: string): ProbabilityConfig {
+  if (PROBABILITY_CONFIGS[spec]) return PROBABILITY_CONFIGS[spec];
+  if (spec.endsWith('.json')) {
+    try {
+      return parseProbabilityConfig(JSON.parse(readFileSync(spec, 'utf8')));
+    } catch (err) {
+      throw new Error(`${spec}: ${(err as Error).message}`);
+    }
+  }
+  throw new Error(`Unknown config "${spec}" (not a bundled id or a .json file)`);
+}
+
+function usageError(message: string): number {
+  console.error(`tune: ${message}\n\n${USAGE}`);
+  return 2;
+}
+
+process.exitCode = main();
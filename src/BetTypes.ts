@@ -0,0 +1,46 @@
+import { BetType, ComboBet, betWins } from './ProbabilityController';
+import { ProbabilityConfig, payoutMultiplier } from './ProbabilityConfig';
+import { OutcomeBranch, enumerateOutcomes } from './RtpCalculator';
+
+export interface BetTypeDef {
+  id: BetType;
+  label: string;
+  /** Compact tag for tight spots (history rows). */
+  short: string;
+}
+
+export const BET_TYPES: Record<BetType, BetTypeDef> = {
+  A:       { id: 'A',       label: 'Tower A',              short: 'A' },
+  B:       { id: 'B',       label: 'Tower B',              short: 'B' },
+  both:    { id: 'both',    label: 'Both survive',         short: 'AB' },
+  neither: { id: 'neither', label: 'Both destroyed',       short: '∅' },
+  one:     { id: 'one',     label: 'Exactly one survives', short: '1' },
+};
+
+export const COMBO_BETS: readonly ComboBet[] = ['both', 'neither', 'one'];
+
+/** Exact probability that a bet wins, summed over the outcome tree. */
+export function betProbability(
+  config: ProbabilityConfig,
+  bet: BetType,
+  branches: OutcomeBranch[] = enumerateOutcomes(config),
+): number {
+  return branches.reduce((p, b) => (betWins(bet, b.survives) ? p + b.probability : p), 0);
+}
+
+/**
+ * Return multiple of every bet type. Tower bets pay the config's fixed
+ * payoutOnWin / bet; combination bets are priced from their exact win
+ * probability so that each returns config.targetRtp. A combination that
+ * cannot win under the config gets multiple 0 and cannot be placed.
+ */
+export function betMultipliers(config: ProbabilityConfig): Record<BetType, number> {
+  const branches = enumerateOutcomes(config);
+  const tower = payoutMultiplier(config);
+  const out: Record<BetType, number> = { A: tower, B: tower, both: 0, neither: 0, one: 0 };
+  for (const bet of COMBO_BETS) {
+    const p = betProbability(config, bet, branches);
+    out[bet] = p > 0 ? config.targetRtp / p : 0;
+  }
+  return out;
+}
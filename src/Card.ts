@@ -1,14 +1,73 @@
 /**
  * Card type definitions and visual data.
- * 14 safe card types + 1 bomb card.
- * pickSafeCard uses SAFE_CARDS.length dynamically → each card gets 1/14 of the 85% safe weight.
+ * The built-in classic pack: 17 safe card types (3 of them special) + 1 bomb
+ * card. Themed packs load from JSON at runtime (see CardPack.ts).
+ * Whether a swipe is a bomb is decided by OutcomeController; pickSafeCard
+ * then picks the safe card by weight.
  */
 
-export type CardKind =
-  | 'strawberry' | 'butterfly' | 'taxi' | 'fruit'         // original 4
-  | 'guru' | 'hydration' | 'catceo' | 'ramen' | 'crypto'  // new batch 1
-  | 'mindfulness' | 'cleaning' | 'pizza' | 'dog' | 'drama' // new batch 2
-  | 'bomb';
+/** Card id, unique within its pack; 'bomb' is reserved for BOMB_CARD. */
+export type CardKind = string;
+
+/** Drives the card's framing; the odds come from `weight`. */
+export type CardRarity = 'common' | 'rare' | 'legendary';
+
+/**
+ * What a special card does to the round, applied by Economy:
+ * - boost: this card's ×1.10 step counts twice (×1.21)
+ * - shield: absorbs the next bomb this round – the pot is kept and play goes on
+ * - tax: no step; the pot is shaved by 20%
+ */
+export type CardEffect = 'boost' | 'shield' | 'tax';
+
+export type CardMotionTarget = 'emoji' | 'title';
+export type CardMotionProperty = 'x' | 'y' | 'rotation' | 'scale';
+/** `bounce` is |sin|: the text only ever moves to one side of rest. */
+export type CardMotionWave = 'sin' | 'cos' | 'bounce';
+
+/**
+ * One oscillating term of a card's idle motion:
+ *   offset = wave(phase × speed) × amplitude
+ * added to the target's resting x / y (px), rotation (rad) or scale (1).
+ * Terms on the same target and property add up; phase runs at ~3 rad/s.
+ */
+export interface CardMotion {
+  /** Defaults to 'emoji'. */
+  target?: CardMotionTarget;
+  property: CardMotionProperty;
+  /** Defaults to 'sin'. */
+  wave?: CardMotionWave;
+  speed: number;
+  amplitude: number;
+}
+
+/**
+ * Decorations with their own loop, drawn over the card:
+ * - stamp: text slams in, holds, then fades (Cat CEO's approval)
+ * - bubble: speech bubble pops up beside the emoji and fades
+ * - steam: three puffs drifting up from the emoji
+ * - ring: breathing double ring around the emoji
+ * - sweep: a sparkle sweeping left to right
+ * - embers: warm dots drifting up from below the emoji
+ */
+export type CardOverlay =
+  | { type: 'stamp'; text: string; color: string }
+  | { type: 'bubble'; text: string }
+  | { type: 'steam' }
+  | { type: 'ring' }
+  | { type: 'sweep' }
+  | { type: 'embers' };
+
+/** Idle animation recipe, played by Renderer while the card is on screen. */
+export interface CardAnimation {
+  motion: CardMotion[];
+  overlay?: CardOverlay;
+}
+
+/** Gentle bob; the original four cards use it, and pack cards without a recipe. */
+export const DEFAULT_CARD_ANIMATION: CardAnimation = {
+  motion: [{ property: 'y', speed: 2.2, amplitude: 7 }],
+};
 
 export interface CardData {
   kind: CardKind;
@@ -18,6 +77,11 @@ export interface CardData {
   gradient: [string, string];
   accentColor: string;
   isBomb: boolean;
+  rarity: CardRarity;
+  /** Relative odds among the safe cards. */
+  weight: number;
+  effect?: CardEffect;
+  animation: CardAnimation;
 }
 
 export const SAFE_CARDS: CardData[] = [
@@ -30,6 +94,9 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#ff6b6b', '#ee0979'],
     accentColor: '#ff6b6b',
     isBomb: false,
+    rarity: 'common',
+    weight: 10,
+    animation: DEFAULT_CARD_ANIMATION,
   },
   {
     kind: 'butterfly',
@@ -39,6 +106,9 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#667eea', '#764ba2'],
     accentColor: '#a78bfa',
     isBomb: false,
+    rarity: 'common',
+    weight: 10,
+    animation: DEFAULT_CARD_ANIMATION,
   },
   {
     kind: 'taxi',
@@ -48,6 +118,9 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#f7971e', '#ffd200'],
     accentColor: '#fbbf24',
     isBomb: false,
+    rarity: 'common',
+    weight: 10,
+    animation: DEFAULT_CARD_ANIMATION,
   },
   {
     kind: 'fruit',
@@ -57,6 +130,9 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#56ab2f', '#a8e063'],
     accentColor: '#4ade80',
     isBomb: false,
+    rarity: 'common',
+    weight: 10,
+    animation: DEFAULT_CARD_ANIMATION,
   },
 
   // ─── New batch 1 ──────────────────────────────────────────────────────────
@@ -68,6 +144,15 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#0f2027', '#2c5364'],
     accentColor: '#38bdf8',
     isBomb: false,
+    rarity: 'rare',
+    weight: 5,
+    animation: {
+      // bounce up-down + rapid micro-shake
+      motion: [
+        { property: 'y', speed: 3.5, amplitude: 9 },
+        { property: 'x', speed: 11, amplitude: 2.5 },
+      ],
+    },
   },
   {
     kind: 'hydration',
@@ -77,6 +162,15 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#00c6ff', '#0072ff'],
     accentColor: '#7dd3fc',
     isBomb: false,
+    rarity: 'common',
+    weight: 10,
+    animation: {
+      // wobble scale + gentle tilt
+      motion: [
+        { property: 'scale', speed: 4, amplitude: 0.055 },
+        { property: 'rotation', speed: 3, amplitude: 0.06 },
+      ],
+    },
   },
   {
     kind: 'catceo',
@@ -86,6 +180,12 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#1a1a2e', '#16213e'],
     accentColor: '#e2e8f0',
     isBomb: false,
+    rarity: 'legendary',
+    weight: 2,
+    animation: {
+      motion: [{ property: 'y', speed: 2, amplitude: 5 }],
+      overlay: { type: 'stamp', text: '✅ APPROVED', color: '#4ade80' },
+    },
   },
   {
     kind: 'ramen',
@@ -95,6 +195,12 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#e96c2e', '#c0392b'],
     accentColor: '#fb923c',
     isBomb: false,
+    rarity: 'common',
+    weight: 10,
+    animation: {
+      motion: [{ property: 'y', speed: 1.8, amplitude: 5 }],
+      overlay: { type: 'steam' },
+    },
   },
   {
     kind: 'crypto',
@@ -104,6 +210,16 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#1a0533', '#7b2ff7'],
     accentColor: '#c084fc',
     isBomb: false,
+    rarity: 'rare',
+    weight: 5,
+    animation: {
+      // rocket wiggle + lean into chaos
+      motion: [
+        { property: 'rotation', speed: 5, amplitude: 0.18 },
+        { property: 'x', speed: 3.5, amplitude: 6 },
+        { property: 'y', wave: 'cos', speed: 4, amplitude: 4 },
+      ],
+    },
   },
 
   // ─── New batch 2 ──────────────────────────────────────────────────────────
@@ -115,6 +231,13 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#11998e', '#38ef7d'],
     accentColor: '#6ee7b7',
     isBomb: false,
+    rarity: 'rare',
+    weight: 5,
+    animation: {
+      // slow 4-count breath, the emoji breathes along
+      motion: [{ property: 'scale', speed: 0.8, amplitude: 0.04 }],
+      overlay: { type: 'ring' },
+    },
   },
   {
     kind: 'cleaning',
@@ -124,6 +247,12 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#4776e6', '#8e54e9'],
     accentColor: '#c4b5fd',
     isBomb: false,
+    rarity: 'common',
+    weight: 10,
+    animation: {
+      motion: [{ property: 'x', speed: 9, amplitude: 1.5 }],
+      overlay: { type: 'sweep' },
+    },
   },
   {
     kind: 'pizza',
@@ -133,6 +262,12 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#f7971e', '#e74c3c'],
     accentColor: '#fca5a5',
     isBomb: false,
+    rarity: 'common',
+    weight: 10,
+    animation: {
+      motion: [{ property: 'y', speed: 2.5, amplitude: 4 }],
+      overlay: { type: 'embers' },
+    },
   },
   {
     kind: 'dog',
@@ -142,6 +277,12 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#f09819', '#edde5d'],
     accentColor: '#fde68a',
     isBomb: false,
+    rarity: 'common',
+    weight: 10,
+    animation: {
+      motion: [{ property: 'y', speed: 2, amplitude: 6 }],
+      overlay: { type: 'bubble', text: 'snack? 🦴' },
+    },
   },
   {
     kind: 'drama',
@@ -151,6 +292,71 @@ export const SAFE_CARDS: CardData[] = [
     gradient: ['#f953c6', '#b91d73'],
     accentColor: '#f9a8d4',
     isBomb: false,
+    rarity: 'rare',
+    weight: 5,
+    animation: {
+      // headline zoom pulse (subtle camera-zoom effect)
+      motion: [
+        { target: 'title', property: 'scale', speed: 2, amplitude: 0.025 },
+        { property: 'y', speed: 3, amplitude: 4 },
+      ],
+    },
+  },
+
+  // ─── Special ──────────────────────────────────────────────────────────────
+  {
+    kind: 'rocket',
+    emoji: '🚀',
+    title: 'ALGORITHM BOOST: YOU WENT VIRAL',
+    subtitle: 'Double step on this card.',
+    gradient: ['#0f2027', '#2c5364'],
+    accentColor: '#38bdf8',
+    isBomb: false,
+    rarity: 'rare',
+    weight: 4,
+    effect: 'boost',
+    animation: {
+      // hops up with engine rumble
+      motion: [
+        { property: 'y', wave: 'bounce', speed: 3, amplitude: -12 },
+        { property: 'x', speed: 17, amplitude: 1.5 },
+      ],
+    },
+  },
+  {
+    kind: 'shield',
+    emoji: '🛡️',
+    title: 'SCREEN TIME LIMIT: ACTIVATED',
+    subtitle: 'Blocks the next bomb this round.',
+    gradient: ['#134e5e', '#71b280'],
+    accentColor: '#86efac',
+    isBomb: false,
+    rarity: 'legendary',
+    weight: 2,
+    effect: 'shield',
+    animation: {
+      // steady protective pulse
+      motion: [{ property: 'scale', speed: 2.5, amplitude: 0.06 }],
+    },
+  },
+  {
+    kind: 'taxman',
+    emoji: '🧾',
+    title: 'PLATFORM FEE APPLIED',
+    subtitle: 'The pot loses 20%.',
+    gradient: ['#3a3a3a', '#6b6b6b'],
+    accentColor: '#d4d4d4',
+    isBomb: false,
+    rarity: 'common',
+    weight: 6,
+    effect: 'tax',
+    animation: {
+      // receipt flutters side to side
+      motion: [
+        { property: 'rotation', speed: 2, amplitude: 0.12 },
+        { property: 'y', speed: 4, amplitude: 3 },
+      ],
+    },
   },
 ];
 
@@ -162,9 +368,28 @@ export const BOMB_CARD: CardData = {
   gradient: ['#1a0000', '#3d0000'],
   accentColor: '#ef4444',
   isBomb: true,
+  rarity: 'common',
+  weight: 0,
+  animation: { motion: [] },
 };
 
-/** Uniform distribution across all 14 safe cards (each = 1/14 of 85% safe weight). */
-export function pickSafeCard(r: number): CardData {
-  return SAFE_CARDS[Math.floor(r * SAFE_CARDS.length)];
+/** Share of safe picks `card` gets among `cards`: its weight over their total. */
+export function safeCardOdds(card: CardData, cards: readonly CardData[] = SAFE_CARDS): number {
+  return card.weight / totalWeight(cards);
+}
+
+/** Weighted pick across `cards` (the classic pack by default); `r` in [0, 1). */
+export function pickSafeCard(r: number, cards: readonly CardData[] = SAFE_CARDS): CardData {
+  let target = r * totalWeight(cards);
+  for (const card of cards) {
+    target -= card.weight;
+    if (target < 0) return card;
+  }
+  return cards[cards.length - 1];
+}
+
+function totalWeight(cards: readonly CardData[]): number {
+  let sum = 0;
+  for (const card of cards) sum += card.weight;
+  return sum;
 }
@@ -0,0 +1,238 @@
+import { Economy } from './Economy';
+import { ReelEngine } from './ReelEngine';
+import { Renderer } from './Renderer';
+import { CardUi } from './CardUi';
+import { CardData, CardEffect } from './Card';
+import { CardPack, DEFAULT_CARD_PACK } from './CardPack';
+import { GameMode } from './GameMode';
+import { SwipeGesture } from './SwipeGesture';
+import { Rng } from './Rng';
+import { RandomBackend, createRandomBackend } from './RandomBackend';
+import { ProvablyFair } from './ProvablyFair';
+import { Wallet } from './Wallet';
+
+type CardState = 'idle' | 'playing' | 'result';
+
+const EFFECT_MESSAGES: Record<CardEffect, string> = {
+  boost: '🚀 Boost! This card stepped twice',
+  shield: '🛡️ Shield up – the next bomb is blocked',
+  tax: '🧾 Platform fee: the pot lost 20%',
+};
+
+/**
+ * Scroll Doom: every round costs a fixed stake, each safe card swiped past
+ * grows the pot by ×1.10, and the bomb card takes it all. Take Profit banks
+ * the pot into the shared wallet. The safe cards come from the first of
+ * `packs`; the player can switch packs between rounds. Like Twin Towers,
+ * every round is drawn from `random` under the wallet's seeds and nonce.
+ */
+export class CardGame implements GameMode {
+  private readonly wallet: Wallet;
+  private readonly economy: Economy;
+  private readonly reel: ReelEngine;
+  private readonly renderer: Renderer;
+  private readonly ui: CardUi;
+  private readonly packs: CardPack[];
+  /** Outcome randomness backend, chosen at boot; its kind is stamped on every round. */
+  private readonly random: RandomBackend;
+  private readonly fair: ProvablyFair;
+  private readonly input = new AbortController();
+  private state: CardState = 'idle';
+  private destroyed = false;
+
+  constructor(
+    wallet: Wallet,
+    packs: CardPack[] = [DEFAULT_CARD_PACK],
+    random: RandomBackend = createRandomBackend('mulberry32'),
+  ) {
+    if (packs.length === 0) throw new Error('CardGame: at least one card pack is required');
+    this.wallet = wallet;
+    this.packs = packs;
+    this.random = random;
+    this.fair = new ProvablyFair(wallet.clientSeed ?? undefined, wallet.nonce, random.kind);
+    if (wallet.clientSeed === null) wallet.setClientSeed(this.fair.clientSeed);
+    this.economy = new Economy(wallet);
+    // Cosmetic picks before the first round; each round then brings its own source
+    this.reel = new ReelEngine(new Rng(), packs[0]);
+    this.ui = new CardUi();
+
+    const canvas = document.getElementById('game-canvas') as HTMLCanvasElement | null;
+    if (!canvas) throw new Error('CardGame: #game-canvas not found');
+    this.renderer = new Renderer(canvas);
+
+    this.bindInput(canvas);
+    this.ui.onTakeProfit(() => this.takeProfit());
+    this.ui.onNextPack(() => this.nextPack());
+    this.ui.onResetWallet(() => {
+      if (this.state !== 'idle') return false;
+      this.wallet.reset();
+      this.ui.setBalance(this.wallet.balance);
+      this.ui.setMessage('Wallet reset. Fresh balance.');
+      return true;
+    });
+
+    this.ui.setBalance(this.wallet.balance);
+    this.ui.setPack(packs[0].label, packs.length);
+    this.enterIdle();
+  }
+
+  /** Shows a one-off message in the banner (e.g. a wallet notice at boot). */
+  notify(message: string): void {
+    this.ui.setMessage(message);
+  }
+
+  // ── Mode lifetime ─────────────────────────────────────────────────────────
+
+  /** Only between rounds: leaving mid-round would forfeit the pot. */
+  requestLeave(): boolean {
+    if (this.state === 'idle') return true;
+    this.ui.setMessage('Cash out or finish the round before switching games.');
+    return false;
+  }
+
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.input.abort();
+    this.ui.destroy();
+    this.renderer.destroy();
+  }
+
+  // ── Input ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Swipe up, drag up or scroll down on the canvas advances one card. The card
+   * follows the finger; gestures are ignored during transitions and popups.
+   */
+  private bindInput(canvas: HTMLCanvasElement): void {
+    new SwipeGesture({
+      onDrag: (offset) => this.renderer.dragCard(offset),
+      onCommit: () => this.swipe(),
+      onCancel: () => this.renderer.snapBack(),
+      isBlocked: () => this.destroyed || this.state === 'result' || this.renderer.isAnimating,
+    }).attach(canvas, this.input.signal);
+  }
+
+  // ── Round flow ────────────────────────────────────────────────────────────
+
+  private enterIdle(): void {
+    this.state = 'idle';
+    this.ui.setState('idle');
+    this.ui.setPot(0, 1);
+    this.ui.setShield(false);
+    this.ui.setTakeProfitEnabled(false);
+    this.ui.setPackEnabled(true);
+    this.renderer.showCard(this.renderer.createCardGraphic(this.reel.safePick()));
+    this.ui.setMessage(`Swipe up to start · ${this.economy.roundCost} FUN per round.`);
+    this.checkBust();
+  }
+
+  private swipe(): void {
+    if (this.state === 'idle' && !this.startRound()) {
+      this.renderer.snapBack();
+      return;
+    }
+
+    const card = this.reel.nextCard(this.economy.swipeCount);
+    this.ui.setTakeProfitEnabled(false);
+    this.renderer.swipeToCard(card, () => this.reveal(card));
+  }
+
+  private startRound(): boolean {
+    if (!this.economy.startRound()) {
+      this.ui.setMessage('Not enough FUN for a round.');
+      return false;
+    }
+    const round = this.fair.nextRound();
+    // Persist the advanced nonce now: a reload mid-round must never reuse it
+    this.wallet.recordRound({ clientSeed: this.fair.clientSeed, nonce: this.fair.nonce });
+    this.reel.startRound(this.random.forRound(round));
+    this.state = 'playing';
+    this.ui.setState('playing');
+    this.ui.setPackEnabled(false);
+    this.ui.setBalance(this.wallet.balance);
+    this.ui.setPot(this.economy.roundValue, this.economy.multiplier);
+    return true;
+  }
+
+  /** Cycles to the next pack; only between rounds, so a round never mixes packs. */
+  private nextPack(): void {
+    if (this.state !== 'idle' || this.renderer.isAnimating) return;
+    const next = this.packs[(this.packs.indexOf(this.reel.pack) + 1) % this.packs.length];
+    this.reel.setPack(next);
+    this.ui.setPack(next.label, this.packs.length);
+    this.renderer.showCard(this.renderer.createCardGraphic(this.reel.safePick()));
+    this.ui.setMessage(`Card pack: ${next.label} · swipe up to start.`);
+  }
+
+  private reveal(card: CardData): void {
+    if (this.destroyed) return;
+    if (card.isBomb) {
+      if (this.economy.onBomb()) this.shieldSaved();
+      else this.bomb();
+      return;
+    }
+    this.economy.onSafeSwipe(card.effect);
+    this.renderer.spawnSparkles(this.renderer.width / 2, this.renderer.height * 0.4);
+    this.ui.setPot(this.economy.roundValue, this.economy.multiplier);
+    this.ui.setShield(this.economy.shielded);
+    this.ui.setTakeProfitEnabled(true);
+    const pot = `Pot ${this.economy.formatRoundValue()} FUN`;
+    this.ui.setMessage(card.effect ? `${EFFECT_MESSAGES[card.effect]} · ${pot}.` : `${pot} · swipe or take profit.`);
+  }
+
+  private shieldSaved(): void {
+    this.ui.setShield(false);
+    this.ui.flash('surprise-flash');
+    this.ui.setTakeProfitEnabled(true);
+    this.ui.setMessage(`🛡️ Shield blocked the bomb! Pot ${this.economy.formatRoundValue()} FUN kept.`);
+  }
+
+  private bomb(): void {
+    this.reel.onRoundLost();
+    this.state = 'result';
+    this.ui.setState('result');
+    this.ui.setPot(0, this.economy.multiplier);
+    this.ui.flash('lose-flash');
+    this.ui.showBombPopup(
+      this.economy.roundCost,
+      this.economy.safeCount,
+      this.economy.blockedBombs,
+      () => this.enterIdle(),
+    );
+  }
+
+  private takeProfit(): void {
+    if (this.state !== 'playing' || this.renderer.isAnimating || this.economy.swipeCount === 0) return;
+    const multiplier = this.economy.multiplier;
+    const payout = this.economy.cashOut();
+    this.reel.onRoundWon();
+    this.state = 'result';
+    this.ui.setState('result');
+    this.ui.setBalance(this.wallet.balance);
+    this.ui.setTakeProfitEnabled(false);
+    this.ui.flash('win-flash');
+    this.renderer.spawnCoins(this.renderer.width / 2, this.renderer.height * 0.6);
+    this.ui.showCashOutPopup(payout, this.economy.roundCost, multiplier, () => this.enterIdle());
+  }
+
+  /**
+   * Applies the daily top-up rule once the player cannot cover a round. The
+   * wallet only tops up below the smallest Twin Towers stake, which is lower
+   * than a card round.
+   */
+  private checkBust(): void {
+    if (this.economy.canStartRound()) return;
+    if (!this.wallet.isBust) {
+      this.ui.setMessage(`A round costs ${this.economy.roundCost} FUN – not enough left to play.`);
+      return;
+    }
+    const granted = this.wallet.claimDailyTopUp();
+    if (granted > 0) {
+      this.ui.setBalance(this.wallet.balance);
+      this.ui.setMessage(`Daily top-up: +${granted.toFixed(0)} FUN. Good luck!`);
+    } else {
+      this.ui.setMessage('Out of FUN! Come back tomorrow for a daily top-up.');
+    }
+  }
+}
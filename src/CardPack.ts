@@ -0,0 +1,265 @@
+import {
+  BOMB_CARD, CardAnimation, CardData, CardMotion, CardMotionProperty, CardMotionTarget, CardMotionWave,
+  CardOverlay, CardRarity, DEFAULT_CARD_ANIMATION, SAFE_CARDS,
+} from './Card';
+
+/**
+ * A themed set of safe cards for Scroll Doom. The bomb card and the bomb odds
+ * are the same in every pack, and so are the special cards: every pack deals
+ * the classic boost, shield and tax cards at their classic odds. A pack only
+ * decides what the plain safe cards look like and how often each shows up
+ * against the others, so it cannot move the RTP.
+ */
+export interface CardPack {
+  id: string;
+  label: string;
+  cards: CardData[];
+}
+
+/** The built-in cards (Card.ts); always available, even offline. */
+export const DEFAULT_CARD_PACK: CardPack = {
+  id: 'classic',
+  label: 'Classic',
+  cards: SAFE_CARDS,
+};
+
+/** The runtime manifest: a list of pack files, relative to it. */
+export const CARD_PACK_MANIFEST_URL = 'packs/index.json';
+
+const RARITIES: readonly CardRarity[] = ['common', 'rare', 'legendary'];
+const MOTION_TARGETS: readonly CardMotionTarget[] = ['emoji', 'title'];
+const MOTION_PROPERTIES: readonly CardMotionProperty[] = ['x', 'y', 'rotation', 'scale'];
+const MOTION_WAVES: readonly CardMotionWave[] = ['sin', 'cos', 'bounce'];
+const OVERLAY_TYPES: readonly CardOverlay['type'][] = ['stamp', 'bubble', 'steam', 'ring', 'sweep', 'embers'];
+
+/** Largest |amplitude| per property, so a typo cannot fling the emoji away. */
+const MAX_AMPLITUDE: Record<CardMotionProperty, number> = { x: 60, y: 60, rotation: 1, scale: 0.5 };
+const MAX_SPEED = 30;
+
+/** The classic special cards, dealt in every pack at their classic odds. */
+const SPECIAL_CARDS = SAFE_CARDS.filter((c) => c.effect);
+const CLASSIC_PLAIN_WEIGHT = sumWeights(SAFE_CARDS.filter((c) => !c.effect));
+
+/**
+ * Validates untrusted JSON (a pack file) and returns a typed copy. Throws a
+ * single Error listing every problem found.
+ *
+ * Cards take the CardData fields minus `isBomb` and `effect`; `rarity`
+ * defaults to 'common' and `animation` to the classic gentle bob. The
+ * classic special cards are appended to the pack's own.
+ */
+export function parseCardPack(raw: unknown): CardPack {
+  const issues: string[] = [];
+  const obj = asRecord(raw, '', issues);
+
+  const pack: CardPack = {
+    id: str(obj.id, 'id', issues),
+    label: obj.label === undefined && typeof obj.id === 'string' ? obj.id : str(obj.label, 'label', issues),
+    cards: [],
+  };
+
+  if (!Array.isArray(obj.cards) || obj.cards.length === 0) {
+    issues.push('cards: expected a non-empty array of cards');
+  } else {
+    const cards = obj.cards.map((item, i) => parseCard(item, `cards[${i}]`, issues));
+    const seen = new Set<string>();
+    cards.forEach((card, i) => {
+      if (card.kind === BOMB_CARD.kind) issues.push(`cards[${i}].kind: "bomb" is reserved for the bomb card`);
+      else if (SPECIAL_CARDS.some((c) => c.kind === card.kind)) {
+        issues.push(`cards[${i}].kind: "${card.kind}" is reserved for a special card`);
+      } else if (seen.has(card.kind)) issues.push(`cards[${i}].kind: duplicate "${card.kind}"`);
+      seen.add(card.kind);
+    });
+    pack.cards = withSpecialCards(cards);
+  }
+
+  if (issues.length > 0) {
+    const name = typeof obj.id === 'string' ? ` "${obj.id}"` : '';
+    throw new Error(`CardPack${name} is invalid:\n  - ${issues.join('\n  - ')}`);
+  }
+  return pack;
+}
+
+/**
+ * Fetches the pack manifest (`{ "packs": ["holiday.json", ...] }`) and every
+ * pack it lists (relative entries resolve against the manifest), so packs
+ * can be added or changed on the server without a rebuild. Returns the
+ * classic pack followed by every valid one; a missing manifest, or a pack
+ * that fails to load or validate, is logged and skipped.
+ */
+export async function loadCardPacks(manifestUrl: string = CARD_PACK_MANIFEST_URL): Promise<CardPack[]> {
+  const packs = [DEFAULT_CARD_PACK];
+  let files: string[];
+  try {
+    files = parseManifest(await fetchJson(manifestUrl));
+  } catch (err) {
+    console.warn(`Card packs: ${(err as Error).message}; using the classic pack only`);
+    return packs;
+  }
+
+  const loaded = await Promise.all(files.map(async (file) => {
+    try {
+      return parseCardPack(await fetchJson(packUrl(manifestUrl, file)));
+    } catch (err) {
+      console.warn(`Card packs: skipping ${file}: ${(err as Error).message}`);
+      return null;
+    }
+  }));
+
+  for (const pack of loaded) {
+    if (!pack) continue;
+    if (packs.some((p) => p.id === pack.id)) {
+      console.warn(`Card packs: skipping duplicate pack id "${pack.id}"`);
+      continue;
+    }
+    packs.push(pack);
+  }
+  return packs;
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+async function fetchJson(url: string): Promise<unknown> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return res.json();
+}
+
+/** `file` relative to the manifest's directory, unless it is a URL or absolute. */
+function packUrl(manifestUrl: string, file: string): string {
+  if (/^([a-z][a-z\d+.-]*:|\/)/i.test(file)) return file;
+  return manifestUrl.slice(0, manifestUrl.lastIndexOf('/') + 1) + file;
+}
+
+function parseManifest(raw: unknown): string[] {
+  const files = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>).packs : undefined;
+  if (!Array.isArray(files) || files.some((f) => typeof f !== 'string' || f.trim() === '')) {
+    throw new Error('manifest: expected { "packs": ["<file>.json", ...] }');
+  }
+  return files;
+}
+
+/**
+ * `cards` followed by the classic special cards, reweighted so each one keeps
+ * its classic odds whatever the total weight of `cards`.
+ */
+function withSpecialCards(cards: CardData[]): CardData[] {
+  const scale = sumWeights(cards) / CLASSIC_PLAIN_WEIGHT;
+  return [...cards, ...SPECIAL_CARDS.map((c) => ({ ...c, weight: c.weight * scale }))];
+}
+
+function sumWeights(cards: readonly CardData[]): number {
+  return cards.reduce((sum, c) => sum + c.weight, 0);
+}
+
+function parseCard(raw: unknown, path: string, issues: string[]): CardData {
+  const obj = asRecord(raw, path, issues);
+  const gradient = Array.isArray(obj.gradient) && obj.gradient.length === 2 ? obj.gradient : null;
+  if (!gradient) issues.push(`${path}.gradient: expected two colours, e.g. ["#ff6b6b", "#ee0979"]`);
+  if (typeof obj.subtitle !== 'string') issues.push(`${path}.subtitle: expected a string`);
+  if (obj.effect !== undefined) issues.push(`${path}.effect: not allowed; the special cards are built in`);
+
+  return {
+    kind: str(obj.kind, `${path}.kind`, issues),
+    emoji: str(obj.emoji, `${path}.emoji`, issues),
+    title: str(obj.title, `${path}.title`, issues),
+    subtitle: typeof obj.subtitle === 'string' ? obj.subtitle : '',
+    gradient: [
+      color(gradient?.[0], `${path}.gradient[0]`, issues, !!gradient),
+      color(gradient?.[1], `${path}.gradient[1]`, issues, !!gradient),
+    ],
+    accentColor: color(obj.accentColor, `${path}.accentColor`, issues),
+    isBomb: false,
+    rarity: obj.rarity === undefined ? 'common' : oneOf(obj.rarity, RARITIES, `${path}.rarity`, issues),
+    weight: num(obj.weight, `${path}.weight`, issues, { gt: 0 }),
+    animation: obj.animation === undefined
+      ? DEFAULT_CARD_ANIMATION
+      : parseAnimation(obj.animation, `${path}.animation`, issues),
+  };
+}
+
+function parseAnimation(raw: unknown, path: string, issues: string[]): CardAnimation {
+  const obj = asRecord(raw, path, issues);
+  if (!Array.isArray(obj.motion)) {
+    issues.push(`${path}.motion: expected an array (may be empty)`);
+    return { motion: [] };
+  }
+
+  const animation: CardAnimation = {
+    motion: obj.motion.map((item, i): CardMotion => {
+      const p = `${path}.motion[${i}]`;
+      const term = asRecord(item, p, issues);
+      const property = oneOf(term.property, MOTION_PROPERTIES, `${p}.property`, issues);
+      const max = MAX_AMPLITUDE[property];
+      const motion: CardMotion = {
+        property,
+        speed: num(term.speed, `${p}.speed`, issues, { min: 0, max: MAX_SPEED }),
+        amplitude: num(term.amplitude, `${p}.amplitude`, issues, { min: -max, max }),
+      };
+      if (term.target !== undefined) motion.target = oneOf(term.target, MOTION_TARGETS, `${p}.target`, issues);
+      if (term.wave !== undefined) motion.wave = oneOf(term.wave, MOTION_WAVES, `${p}.wave`, issues);
+      return motion;
+    }),
+  };
+  if (obj.overlay !== undefined) animation.overlay = parseOverlay(obj.overlay, `${path}.overlay`, issues);
+  return animation;
+}
+
+function parseOverlay(raw: unknown, path: string, issues: string[]): CardOverlay {
+  const obj = asRecord(raw, path, issues);
+  const type = oneOf(obj.type, OVERLAY_TYPES, `${path}.type`, issues);
+  switch (type) {
+    case 'stamp':
+      return { type, text: str(obj.text, `${path}.text`, issues), color: color(obj.color, `${path}.color`, issues) };
+    case 'bubble':
+      return { type, text: str(obj.text, `${path}.text`, issues) };
+    default:
+      return { type };
+  }
+}
+
+// ── Validation helpers ───────────────────────────────────────────────────────
+
+function asRecord(v: unknown, path: string, issues: string[]): Record<string, unknown> {
+  if (typeof v === 'object' && v !== null && !Array.isArray(v)) return v as Record<string, unknown>;
+  issues.push(`${path || 'pack'}: expected an object`);
+  return {};
+}
+
+function str(v: unknown, path: string, issues: string[]): string {
+  if (typeof v === 'string' && v.trim().length > 0) return v;
+  issues.push(`${path}: expected a non-empty string`);
+  return '';
+}
+
+/**
+ * `#rrggbb`, the only form Renderer parses. `report` is false when the parent
+ * already failed.
+ */
+function color(v: unknown, path: string, issues: string[], report = true): string {
+  if (typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v)) return v;
+  if (report) issues.push(`${path}: expected a #rrggbb colour, got ${JSON.stringify(v)}`);
+  return '#000000';
+}
+
+function oneOf<T extends string>(v: unknown, allowed: readonly T[], path: string, issues: string[]): T {
+  if (allowed.includes(v as T)) return v as T;
+  issues.push(`${path}: expected one of ${allowed.join(' | ')}, got ${JSON.stringify(v)}`);
+  return allowed[0];
+}
+
+function num(
+  v: unknown,
+  path: string,
+  issues: string[],
+  range: { min?: number; gt?: number; max?: number },
+): number {
+  if (typeof v !== 'number' || !Number.isFinite(v)) {
+    issues.push(`${path}: expected a finite number`);
+    return 0;
+  }
+  if (range.min !== undefined && v < range.min) issues.push(`${path}: must be ≥ ${range.min}, got ${v}`);
+  if (range.gt !== undefined && v <= range.gt) issues.push(`${path}: must be > ${range.gt}, got ${v}`);
+  if (range.max !== undefined && v > range.max) issues.push(`${path}: must be ≤ ${range.max}, got ${v}`);
+  return v;
+}
@@ -0,0 +1,364 @@
+import { Rng } from './Rng';
+import { RandomSource } from './RandomSource';
+import { ReelEngine } from './ReelEngine';
+import { Bankroll, Economy } from './Economy';
+import { CardEffect } from './Card';
+import { CardPack, DEFAULT_CARD_PACK } from './CardPack';
+
+// ── Cash-out policies ────────────────────────────────────────────────────────
+
+/** Decides, after each safe card or shield-blocked bomb, whether to take the pot. */
+export interface CardCashOutPolicy {
+  id: string;
+  label: string;
+  /**
+   * `cards` cards have been swiped so far (≥ 1, a blocked bomb included)
+   * and the pot stands at `multiplier` × the round cost. `rng` is a stream
+   * of its own, so a random policy never shifts which cards come up.
+   */
+  shouldCashOut(cards: number, multiplier: number, rng: RandomSource): boolean;
+}
+
+/** Take the pot as soon as `count` safe cards have been swiped. */
+export function cashOutAfterCards(count: number): CardCashOutPolicy {
+  return {
+    id: `cards-${count}`,
+    label: `Cash out after ${count} card${count === 1 ? '' : 's'}`,
+    shouldCashOut: (cards) => cards >= count,
+  };
+}
+
+/**
+ * Take the pot once the multiplier reaches `target`. Without special cards
+ * the step is a fixed ×1.10, so this is close to a card count (×1.5 = 5
+ * cards, ×2 = 8); boosts and taxes move it.
+ */
+export function cashOutAtCardMultiplier(target: number): CardCashOutPolicy {
+  return {
+    id: `mult-${target}`,
+    label: `Cash out at ×${target}`,
+    shouldCashOut: (_cards, multiplier) => multiplier >= target,
+  };
+}
+
+/** After every safe card, take the pot with probability `p`. */
+export function cashOutRandomly(p: number): CardCashOutPolicy {
+  return {
+    id: `random-${p}`,
+    label: `Cash out at random (${Math.round(p * 100)}% per card)`,
+    shouldCashOut: (_cards, _multiplier, rng) => rng.chance(p),
+  };
+}
+
+/** Never cash out: every round ends on the bomb. RTP is 0; the bomb index is unbiased. */
+export const RIDE_TO_BOMB: CardCashOutPolicy = {
+  id: 'never',
+  label: 'Ride to the bomb',
+  shouldCashOut: () => false,
+};
+
+/** Policies in the default report. */
+export const DEFAULT_CARD_POLICIES: CardCashOutPolicy[] = [
+  cashOutAfterCards(1),
+  cashOutAfterCards(2),
+  cashOutAfterCards(3),
+  cashOutAtCardMultiplier(1.5),
+  cashOutAtCardMultiplier(2),
+  cashOutRandomly(0.25),
+  RIDE_TO_BOMB,
+];
+
+/**
+ * Policy from a spec string: `cards:<n>`, `mult:<x>`, `random:<p>` or
+ * `never`. Throws on anything else.
+ */
+export function parseCardPolicy(spec: string): CardCashOutPolicy {
+  if (spec === 'never') return RIDE_TO_BOMB;
+  const [kind, arg = ''] = spec.split(':');
+  const value = Number(arg);
+  if (kind === 'cards' && Number.isInteger(value) && value >= 1) return cashOutAfterCards(value);
+  if (kind === 'mult' && value > 1) return cashOutAtCardMultiplier(value);
+  if (kind === 'random' && value > 0 && value <= 1) return cashOutRandomly(value);
+  throw new Error(`CardSimulation: bad policy "${spec}" (expected cards:<n ≥ 1>, mult:<x > 1>, random:<0 < p ≤ 1> or never)`);
+}
+
+// ── Simulation ───────────────────────────────────────────────────────────────
+
+/** Seed used when none is given, so default runs are reproducible. */
+export const DEFAULT_CARD_SIMULATION_SEED = 0xca4d5eed;
+
+/** The bomb index histogram lumps every bomb from this card on into its last bin. */
+export const BOMB_INDEX_BINS = 30;
+
+export interface CardSimulationOptions {
+  rounds: number;
+  seed?: number;
+  /**
+   * Feed round results back to the OutcomeController, as the game does,
+   * so the streak mercy / correction in getBombProbability applies.
+   * Default: true.
+   */
+  streaks?: boolean;
+  /**
+   * Apply special card effects (boost, shield, tax) through Economy, as the
+   * game does. false plays them as plain safe cards. Default: true.
+   */
+  effects?: boolean;
+  /** Safe cards to deal. Default: the classic pack. */
+  pack?: CardPack;
+  /**
+   * Draw from this source instead of an Rng seeded with `seed`, e.g. a
+   * ScriptedSource to play out a fixed sequence of cards.
+   */
+  rng?: RandomSource;
+}
+
+export interface CardPolicyResults {
+  policy: { id: string; label: string };
+  rounds: number;
+  seed: number;
+  streaks: boolean;
+  effects: boolean;
+  pack: { id: string; label: string };
+  /** Returned / staked. */
+  rtp: number;
+  /** 95% confidence half-width of `rtp`, from the per-round return variance. */
+  rtpHalfWidth: number;
+  cashOutRate: number;
+  /** Safe cards swiped per round, whether it was cashed out or bombed. */
+  avgCards: number;
+  /**
+   * Share of all rounds that bombed on card i + 1 (index 0 = the first card).
+   * The last bin holds every bomb from card BOMB_INDEX_BINS on. Sums to
+   * 1 − cashOutRate.
+   */
+  bombIndex: number[];
+  /** Share of rounds in which the streak adjustment was active (mercy / correction). */
+  streakMercy: number;
+  streakCorrection: number;
+  /** Special cards swiped per round, by effect (counted even when effects are off). */
+  specialCards: Record<CardEffect, number>;
+  /** Share of rounds in which a shield absorbed a bomb. */
+  shieldSaves: number;
+}
+
+/**
+ * Plays `rounds` card rounds under one cash-out policy, with the game's own
+ * ReelEngine and Economy: same bomb odds, same ×1.10 step and rounding, same
+ * round cost. Deterministic per seed.
+ */
+export function simulateCardPolicy(policy: CardCashOutPolicy, opts: CardSimulationOptions): CardPolicyResults {
+  if (!Number.isInteger(opts.rounds) || opts.rounds <= 0) {
+    throw new Error(`CardSimulation: rounds must be a positive integer, got ${opts.rounds}`);
+  }
+  const seed = opts.seed ?? DEFAULT_CARD_SIMULATION_SEED;
+  const streaks = opts.streaks ?? true;
+  const effects = opts.effects ?? true;
+  const pack = opts.pack ?? DEFAULT_CARD_PACK;
+  const rng = opts.rng ?? new Rng(seed);
+  const policyRng = rng.derive(1);
+  const reel = new ReelEngine(rng, pack);
+  const bank = new TallyBankroll();
+  const economy = new Economy(bank);
+
+  let cashOuts = 0;
+  let cards = 0;
+  let mercy = 0;
+  let correction = 0;
+  let shieldSaves = 0;
+  const specials: Record<CardEffect, number> = { boost: 0, shield: 0, tax: 0 };
+  const bombs = new Array<number>(BOMB_INDEX_BINS).fill(0);
+  // Welford running variance of the per-round return (in round costs)
+  let mean = 0;
+  let m2 = 0;
+
+  for (let i = 0; i < opts.rounds; i++) {
+    const streak = reel.controller.streakFactor;
+    if (streak < 1) mercy++;
+    if (streak > 1) correction++;
+
+    economy.startRound();
+    reel.startRound();
+    let returned = 0;
+    for (;;) {
+      const card = reel.nextCard(economy.swipeCount);
+      if (card.isBomb) {
+        const swiped = economy.swipeCount;
+        if (economy.onBomb()) {
+          // The blocked bomb counts as a swiped card, so the player gets to decide again
+          shieldSaves++;
+        } else {
+          bombs[Math.min(swiped, BOMB_INDEX_BINS - 1)]++;
+          cards += swiped;
+          if (streaks) reel.onRoundLost();
+          break;
+        }
+      } else {
+        if (card.effect) specials[card.effect]++;
+        economy.onSafeSwipe(effects ? card.effect : undefined);
+      }
+      if (policy.shouldCashOut(economy.swipeCount, economy.multiplier, policyRng)) {
+        cards += economy.swipeCount;
+        returned = economy.cashOut() / economy.roundCost;
+        cashOuts++;
+        if (streaks) reel.onRoundWon();
+        break;
+      }
+    }
+
+    const delta = returned - mean;
+    mean += delta / (i + 1);
+    m2 += delta * (returned - mean);
+  }
+
+  const rounds = opts.rounds;
+  const variance = rounds > 1 ? m2 / (rounds - 1) : 0;
+  return {
+    policy: { id: policy.id, label: policy.label },
+    rounds,
+    seed,
+    streaks,
+    effects,
+    pack: { id: pack.id, label: pack.label },
+    rtp: bank.credited / bank.debited,
+    rtpHalfWidth: 1.96 * Math.sqrt(variance / rounds),
+    cashOutRate: cashOuts / rounds,
+    avgCards: cards / rounds,
+    bombIndex: bombs.map((n) => n / rounds),
+    streakMercy: mercy / rounds,
+    streakCorrection: correction / rounds,
+    specialCards: {
+      boost: specials.boost / rounds,
+      shield: specials.shield / rounds,
+      tax: specials.tax / rounds,
+    },
+    shieldSaves: shieldSaves / rounds,
+  };
+}
+
+/** One policy with the streak adjustments on (as shipped) and off. */
+export interface CardPolicyReport {
+  withStreaks: CardPolicyResults;
+  withoutStreaks: CardPolicyResults;
+  /** withStreaks.rtp − withoutStreaks.rtp. */
+  streakShift: number;
+  /** 95% half-width of `streakShift`, treating the two runs as independent. */
+  streakShiftHalfWidth: number;
+}
+
+/** Runs every policy twice from the same seed: streak adjustments on, then off. */
+export function simulateCardPolicies(
+  opts: Omit<CardSimulationOptions, 'streaks'>,
+  policies: CardCashOutPolicy[] = DEFAULT_CARD_POLICIES,
+): CardPolicyReport[] {
+  return policies.map((policy) => {
+    const withStreaks = simulateCardPolicy(policy, { ...opts, streaks: true });
+    const withoutStreaks = simulateCardPolicy(policy, { ...opts, streaks: false });
+    return {
+      withStreaks,
+      withoutStreaks,
+      streakShift: withStreaks.rtp - withoutStreaks.rtp,
+      streakShiftHalfWidth: Math.hypot(withStreaks.rtpHalfWidth, withoutStreaks.rtpHalfWidth),
+    };
+  });
+}
+
+// ── Reports ──────────────────────────────────────────────────────────────────
+
+export function cardSimulationJson(reports: CardPolicyReport[]): string {
+  return JSON.stringify(reports, null, 2);
+}
+
+/** Summary table per policy, then the bomb index distribution without cash-outs. */
+export function cardSimulationMarkdown(reports: CardPolicyReport[]): string {
+  const first = reports[0]?.withStreaks;
+  const lines = [
+    '# Scroll Doom RTP by cash-out policy',
+    '',
+    first
+      ? `${first.rounds} rounds per policy and setting, seed ${hex(first.seed)}, `
+        + `${first.pack.label} card pack, special card effects ${first.effects ? 'on' : 'off (played as plain safe cards)'}.`
+      : 'No policies.',
+    '',
+    '| Policy | RTP | 95% CI | Cash-out rate | Avg cards | RTP, no streaks | Streak shift |',
+    '|---|---:|---|---:|---:|---:|---:|',
+    ...reports.map(({ withStreaks: r, withoutStreaks: n, streakShift, streakShiftHalfWidth }) =>
+      `| ${r.policy.label} | ${pct(r.rtp)} | ${pct(r.rtp - r.rtpHalfWidth)} – ${pct(r.rtp + r.rtpHalfWidth)} `
+      + `| ${pct(r.cashOutRate)} | ${r.avgCards.toFixed(2)} | ${pct(n.rtp)} `
+      + `| ${signedPp(streakShift)} ± ${pp(streakShiftHalfWidth)} |`),
+  ];
+
+  lines.push(
+    '',
+    '## Special cards',
+    '',
+    'Per round, with the streak adjustments on.',
+    '',
+    '| Policy | 🚀 Boost | 🛡️ Shield | 🧾 Tax | Bombs absorbed |',
+    '|---|---:|---:|---:|---:|',
+    ...reports.map(({ withStreaks: r }) =>
+      `| ${r.policy.label} | ${r.specialCards.boost.toFixed(4)} | ${r.specialCards.shield.toFixed(4)} `
+      + `| ${r.specialCards.tax.toFixed(4)} | ${pct(r.shieldSaves)} |`),
+  );
+
+  const ride = reports.find((r) => r.withStreaks.policy.id === RIDE_TO_BOMB.id);
+  if (ride) {
+    // Riding every round to the bomb keeps the loss streak, so mercy is always on
+    const on = ride.withStreaks.bombIndex;
+    const off = ride.withoutStreaks.bombIndex;
+    lines.push(
+      '',
+      '## Bomb index (no cash-outs)',
+      '',
+      'Card the bomb lands on, with streak mercy always on (every round lost) and with no streak adjustment.',
+      '',
+      '| Card | Mercy | Cumulative | No streaks | Cumulative |',
+      '|---:|---:|---:|---:|---:|',
+    );
+    let cumOn = 0;
+    let cumOff = 0;
+    on.forEach((share, i) => {
+      cumOn += share;
+      cumOff += off[i];
+      const card = i === on.length - 1 ? `${i + 1}+` : `${i + 1}`;
+      lines.push(`| ${card} | ${pct(share)} | ${pct(cumOn)} | ${pct(off[i])} | ${pct(cumOff)} |`);
+    });
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+/** Counts money in and out instead of holding a balance; never refuses a debit. */
+class TallyBankroll implements Bankroll {
+  debited = 0;
+  credited = 0;
+
+  get balance(): number { return Infinity; }
+
+  debit(amount: number): boolean {
+    this.debited += amount;
+    return true;
+  }
+
+  credit(amount: number): void {
+    this.credited += amount;
+  }
+}
+
+function pct(x: number): string {
+  return `${(x * 100).toFixed(2)}%`;
+}
+
+/** Percentage points. */
+function pp(x: number): string {
+  return `${(x * 100).toFixed(2)} pp`;
+}
+
+function signedPp(x: number): string {
+  return `${x >= 0 ? '+' : ''}${pp(x)}`;
+}
+
+function hex(n: number): string {
+  return `0x${n.toString(16)}`;
+}
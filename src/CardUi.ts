@@ -0,0 +1,94 @@
+import { Hud } from './Hud';
+
+/**
+ * Manages the Scroll Doom DOM UI on top of the shared Hud: the pot pill, the
+ * Take Profit button and the card pack switch. Swipes themselves are read off
+ * the canvas by CardGame.
+ */
+export class CardUi extends Hud {
+  // ── Element references ───────────────────────────────────────────────────
+  private readonly elPot        = this.el('card-pot');
+  private readonly elMult       = this.el('card-mult');
+  private readonly elShield     = this.el('card-shield');
+  private readonly elTakeProfit = this.el<HTMLButtonElement>('btn-take-profit');
+  private readonly elPack       = this.el<HTMLButtonElement>('btn-card-pack');
+
+  constructor() {
+    super();
+    this.setPot(0, 1);
+    this.setTakeProfitEnabled(false);
+  }
+
+  onTakeProfit(cb: () => void): void {
+    this.listen(this.elTakeProfit, 'click', cb);
+  }
+
+  onNextPack(cb: () => void): void {
+    this.listen(this.elPack, 'click', cb);
+  }
+
+  // ── Pot ──────────────────────────────────────────────────────────────────
+
+  setPot(value: number, multiplier: number): void {
+    this.elPot.textContent  = `${value.toFixed(2)} FUN`;
+    this.elMult.textContent = `×${multiplier.toFixed(2)}`;
+  }
+
+  /** Shows that a shield card will absorb the next bomb. */
+  setShield(on: boolean): void {
+    this.elShield.hidden = !on;
+  }
+
+  setTakeProfitEnabled(enabled: boolean): void {
+    this.elTakeProfit.disabled = !enabled;
+  }
+
+  // ── Card packs ───────────────────────────────────────────────────────────
+
+  /** The switch only shows when there is more than one pack to pick from. */
+  setPack(label: string, packCount: number): void {
+    this.elPack.hidden = packCount < 2;
+    this.elPack.textContent = `🎴 PACK · ${label.toUpperCase()}`;
+  }
+
+  setPackEnabled(enabled: boolean): void {
+    this.elPack.disabled = !enabled;
+  }
+
+  // ── Result popups ────────────────────────────────────────────────────────
+
+  /**
+   * `safeCards` safe cards came before the bomb, and a shield blocked
+   * `blockedBombs` earlier ones.
+   */
+  showBombPopup(cost: number, safeCards: number, blockedBombs: number, onClose: () => void): void {
+    const blocked = blockedBombs > 0 ? ` and ${plural(blockedBombs, 'bomb')} blocked by a shield` : '';
+    this.showPopup({
+      icon: '💣',
+      title: 'Doom Scrolled!',
+      subtitle: safeCards === 0
+        ? 'The bomb was waiting on the very first card.'
+        : `The bomb showed up after ${plural(safeCards, 'safe card')}${blocked}.`,
+      amount: `−${cost.toFixed(0)} FUN`,
+      win: false,
+    }, onClose);
+  }
+
+  /** A taxed pot can be cashed out below the round cost; that shows as a loss. */
+  showCashOutPopup(payout: number, cost: number, multiplier: number, onClose: () => void): void {
+    const net = payout - cost;
+    this.showPopup({
+      icon: net >= 0 ? '💰' : '🧾',
+      title: net >= 0 ? 'Profit Taken!' : 'Cashed Out',
+      subtitle: `You walked away at ×${multiplier.toFixed(2)}.`,
+      amount: `${net >= 0 ? '+' : '−'}${Math.abs(net).toFixed(2)} FUN`,
+      win: net >= 0,
+    }, onClose);
+  }
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
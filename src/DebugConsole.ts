@@ -0,0 +1,137 @@
+import { PlaneOutcome, RoundEvents, TowerId } from './ProbabilityController';
+
+/** What the debug console drives; implemented by Game. */
+export interface DebugTarget {
+  /**
+   * Queues `events` for the next START press (null clears the queue).
+   * `onPlayed` fires once the forced round has been animated.
+   */
+  forceNextRound(events: RoundEvents | null, onPlayed?: () => void): void;
+}
+
+const PLANES: PlaneOutcome[] = ['hitA', 'hitB', 'miss'];
+const PLANE_LABELS: Record<PlaneOutcome, string> = { hitA: 'Hit A', hitB: 'Hit B', miss: 'Miss' };
+
+/**
+ * QA overlay that forces the outcome of the next round: first plane, second
+ * plane (after a miss) and collapsed tower. Forced rounds are animation only –
+ * no stake, payout, nonce, ledger entry or simulation stat is touched.
+ *
+ * Dev builds only: the constructor refuses to run when import.meta.env.PROD
+ * is set, and main.ts only imports this module outside production.
+ * Toggle with Ctrl+Shift+D, or open at boot with `?debug`.
+ */
+export class DebugConsole {
+  private readonly target: DebugTarget;
+  private readonly root: HTMLElement;
+  private readonly status: HTMLElement;
+  private readonly secondRow: HTMLElement;
+  private firstPlane: PlaneOutcome = 'miss';
+  private secondPlane: PlaneOutcome | null = 'hitA';
+  private collapsedTower: TowerId | null = null;
+  private readonly onKeyDown = (e: KeyboardEvent) => {
+    if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'd') {
+      e.preventDefault();
+      this.toggle();
+    }
+  };
+
+  constructor(target: DebugTarget) {
+    if (import.meta.env.PROD) {
+      throw new Error('DebugConsole: forced outcomes are disabled in production builds');
+    }
+    this.target = target;
+
+    this.root = document.createElement('div');
+    this.root.className = 'debug-console';
+    this.root.hidden = true;
+    this.root.innerHTML = `
+      <div class="debug-title">🛠 QA · force next round</div>
+      <div class="debug-row"><span>1st plane</span>${choices('first', PLANES.map((p) => [p, PLANE_LABELS[p]]))}</div>
+      <div class="debug-row" data-row="second"><span>2nd plane</span>${choices('second', [['none', 'None'], ...PLANES.map((p): [string, string] => [p, PLANE_LABELS[p]])])}</div>
+      <div class="debug-row"><span>Collapse</span>${choices('collapse', [['none', 'None'], ['A', 'Tower A'], ['B', 'Tower B']])}</div>
+      <div class="debug-actions">
+        <button data-action="queue">Queue</button>
+        <button data-action="clear">Clear</button>
+      </div>
+      <div class="debug-status">Nothing queued.</div>
+    `;
+    this.status = this.root.querySelector<HTMLElement>('.debug-status')!;
+    this.secondRow = this.root.querySelector<HTMLElement>('[data-row="second"]')!;
+
+    for (const btn of this.root.querySelectorAll<HTMLButtonElement>('[data-group]')) {
+      btn.addEventListener('click', () => this.select(btn.dataset.group!, btn.dataset.value!));
+    }
+    this.root.querySelector('[data-action="queue"]')!.addEventListener('click', () => this.queue());
+    this.root.querySelector('[data-action="clear"]')!.addEventListener('click', () => {
+      this.target.forceNextRound(null);
+      this.status.textContent = 'Nothing queued.';
+    });
+    window.addEventListener('keydown', this.onKeyDown);
+
+    document.body.appendChild(this.root);
+    this.render();
+  }
+
+  toggle(): void {
+    this.root.hidden = !this.root.hidden;
+  }
+
+  /** Removes the overlay and its shortcut; called when the target game is torn down. */
+  destroy(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.root.remove();
+  }
+
+  private select(group: string, value: string): void {
+    if (group === 'first') this.firstPlane = value as PlaneOutcome;
+    if (group === 'second') this.secondPlane = value === 'none' ? null : value as PlaneOutcome;
+    if (group === 'collapse') this.collapsedTower = value === 'none' ? null : value as TowerId;
+    this.render();
+  }
+
+  /** The events the current selection describes; a second plane only follows a miss. */
+  private get events(): RoundEvents {
+    return {
+      firstPlane: this.firstPlane,
+      secondPlane: this.firstPlane === 'miss' ? this.secondPlane ?? undefined : undefined,
+      collapsedTower: this.collapsedTower ?? undefined,
+    };
+  }
+
+  private queue(): void {
+    const events = this.events;
+    this.target.forceNextRound(events, () => {
+      this.status.textContent = 'Forced round played. Nothing queued.';
+    });
+    this.status.textContent = `Queued: ${describe(events)} – press START.`;
+  }
+
+  private render(): void {
+    const selected: Record<string, string> = {
+      first: this.firstPlane,
+      second: this.secondPlane ?? 'none',
+      collapse: this.collapsedTower ?? 'none',
+    };
+    for (const btn of this.root.querySelectorAll<HTMLButtonElement>('[data-group]')) {
+      btn.classList.toggle('active', selected[btn.dataset.group!] === btn.dataset.value);
+    }
+    this.secondRow.classList.toggle('disabled', this.firstPlane !== 'miss');
+  }
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+function choices(group: string, options: [string, string][]): string {
+  return `<span class="debug-choices">${options
+    .map(([value, label]) => `<button data-group="${group}" data-value="${value}">${label}</button>`)
+    .join('')}</span>`;
+}
+
+function describe(e: RoundEvents): string {
+  return [
+    PLANE_LABELS[e.firstPlane],
+    e.secondPlane ? `then ${PLANE_LABELS[e.secondPlane]}` : '',
+    e.collapsedTower ? `${e.collapsedTower} collapses` : '',
+  ].filter(Boolean).join(', ');
+}
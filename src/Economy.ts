@@ -1,41 +1,82 @@
+import { CardEffect } from './Card';
+
+/**
+ * Where round costs come from and cash-outs go. The shared Wallet fits this
+ * shape; a plain number gives Economy its own in-memory balance.
+ */
+export interface Bankroll {
+  readonly balance: number;
+  /** Takes `amount` off the balance; false (and no change) if it does not cover it. */
+  debit(amount: number): boolean;
+  credit(amount: number): void;
+}
+
 /**
  * Manages player balance and round economics.
  */
 export class Economy {
-  private _balance: number;
+  private readonly bank: Bankroll;
   private _roundValue: number = 0;
   private _multiplier: number = 1.0;
   private _swipeCount: number = 0;
   private _roundCost: number = 10;
   private _multiplierStep: number = 1.1;
+  private _taxRate: number = 0.2;
+  /** ×1.10 steps earned this round – a boost card earns two. */
+  private _steps: number = 0;
+  /** Product of tax shavings this round. */
+  private _potFactor: number = 1;
+  private _shielded: boolean = false;
+  /** Bombs a shield absorbed this round; each also counts in `_swipeCount`. */
+  private _blockedBombs: number = 0;
 
-  constructor(initialBalance: number = 1000) {
-    this._balance = initialBalance;
+  constructor(bankroll: Bankroll | number = 1000) {
+    this.bank = typeof bankroll === 'number' ? new LocalBankroll(bankroll) : bankroll;
   }
 
-  get balance(): number { return this._balance; }
+  get balance(): number { return this.bank.balance; }
   get roundValue(): number { return this._roundValue; }
   get multiplier(): number { return this._multiplier; }
+  /** Cards swiped this round, bombs a shield blocked included. */
   get swipeCount(): number { return this._swipeCount; }
+  /** Safe cards swiped this round: swipeCount without the blocked bombs. */
+  get safeCount(): number { return this._swipeCount - this._blockedBombs; }
+  get blockedBombs(): number { return this._blockedBombs; }
   get roundCost(): number { return this._roundCost; }
+  /** A shield card is waiting to absorb the next bomb this round. */
+  get shielded(): boolean { return this._shielded; }
 
   canStartRound(): boolean {
-    return this._balance >= this._roundCost;
+    return this.bank.balance >= this._roundCost;
   }
 
   startRound(): boolean {
-    if (!this.canStartRound()) return false;
-    this._balance -= this._roundCost;
+    if (!this.canStartRound() || !this.bank.debit(this._roundCost)) return false;
     this._roundValue = this._roundCost;
     this._multiplier = 1.0;
     this._swipeCount = 0;
+    this._steps = 0;
+    this._potFactor = 1;
+    this._shielded = false;
+    this._blockedBombs = 0;
     return true;
   }
 
-  onSafeSwipe(): void {
+  /** A safe card was swiped; `effect` is the card's special effect, if any. */
+  onSafeSwipe(effect?: CardEffect): void {
     this._swipeCount++;
+    if (effect === 'boost') {
+      this._steps += 2;
+    } else if (effect === 'tax') {
+      this._potFactor *= 1 - this._taxRate;
+    } else {
+      this._steps++;
+    }
+    // A second shield while one is armed adds nothing – they do not stack
+    if (effect === 'shield') this._shielded = true;
+
     this._multiplier = parseFloat(
-      Math.pow(this._multiplierStep, this._swipeCount).toFixed(4)
+      (Math.pow(this._multiplierStep, this._steps) * this._potFactor).toFixed(4)
     );
     this._roundValue = parseFloat(
       (this._roundCost * this._multiplier).toFixed(2)
@@ -44,17 +85,29 @@ export class Economy {
 
   cashOut(): number {
     const profit = this._roundValue;
-    this._balance = parseFloat((this._balance + profit).toFixed(2));
+    this.bank.credit(profit);
     this._roundValue = 0;
     return profit;
   }
 
-  onBomb(): void {
+  /**
+   * A bomb came up. Returns true when a shield absorbed it: the shield is
+   * used up, the pot is kept and the round goes on (the card counts as
+   * swiped). Otherwise the pot is lost.
+   */
+  onBomb(): boolean {
+    if (this._shielded) {
+      this._shielded = false;
+      this._swipeCount++;
+      this._blockedBombs++;
+      return true;
+    }
     this._roundValue = 0;
+    return false;
   }
 
   formatBalance(): string {
-    return this._balance.toFixed(0);
+    return this.bank.balance.toFixed(0);
   }
 
   formatRoundValue(): string {
@@ -65,3 +118,25 @@ export class Economy {
     return `×${this._multiplier.toFixed(2)}`;
   }
 }
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+class LocalBankroll implements Bankroll {
+  private _balance: number;
+
+  constructor(balance: number) {
+    this._balance = balance;
+  }
+
+  get balance(): number { return this._balance; }
+
+  debit(amount: number): boolean {
+    if (amount > this._balance) return false;
+    this._balance = parseFloat((this._balance - amount).toFixed(2));
+    return true;
+  }
+
+  credit(amount: number): void {
+    this._balance = parseFloat((this._balance + amount).toFixed(2));
+  }
+}
@@ -1,10 +1,38 @@
 import * as PIXI from 'pixi.js';
 import { Rng } from './Rng';
-import { PlaneOutcome, ProbabilityController, RoundResolution, TowerId } from './ProbabilityController';
+import {
+  BetType,
+  PlaneOutcome,
+  ProbabilityController,
+  RoundEvents,
+  RoundResolution,
+  TowerId,
+  composeResolution,
+} from './ProbabilityController';
+import { DEFAULT_PROBABILITY_CONFIG, ProbabilityConfig, SideBetId } from './ProbabilityConfig';
+import { BET_TYPES, betMultipliers } from './BetTypes';
+import { SideBetStakes, settleSideBets, sideBetMultipliers, totalSideStake } from './SideBets';
+import { StakeLadder } from './StakeLadder';
+import { CashOutLadder, ladderMultipliers } from './Ladder';
+import { Wallet } from './Wallet';
+import {
+  FairRound,
+  ProvablyFair,
+  deriveRoundSeed,
+  deriveWaveSeed,
+  verifyRound,
+} from './ProvablyFair';
+import { RandomBackend, createRandomBackend } from './RandomBackend';
+import { isSeedDerived } from './RandomSource';
+import { ReplaySeeds, replayRound } from './RoundReplay';
+import { RoundLedger } from './RoundLedger';
 import { Ui } from './Ui';
-import { simulate } from './Simulation';
+import { SimulationClient, SimulationTask } from './SimulationClient';
+import { computeExactRtp } from './RtpCalculator';
+import { DebugTarget } from './DebugConsole';
+import { GameMode } from './GameMode';
 
-type GameState = 'idle' | 'betting' | 'flying' | 'resolve' | 'win' | 'lose';
+type GameState = 'idle' | 'betting' | 'flying' | 'between-waves' | 'resolve' | 'win' | 'lose' | 'replay';
 
 // ── Tower geometry ────────────────────────────────────────────────────────────
 const TW = 88;   // tower width
@@ -18,15 +46,51 @@ interface TowerPalette { body: number; accent: number; window: number; roof: num
 const PA: TowerPalette = { body: 0x4f6ef5, accent: 0x8aa0ff, window: 0xc8d8ff, roof: 0x3350d6 }; // Tower A – blue
 const PB: TowerPalette = { body: 0xee5aa2, accent: 0xff9fd4, window: 0xffd6ee, roof: 0xc43787 }; // Tower B – pink
 
-export class Game {
+// Stream id for cosmetic randomness derived from a round's outcome seed
+const FX_STREAM = 0xf1;
+
+export class Game implements DebugTarget, GameMode {
   private readonly app: PIXI.Application;
   private readonly ui: Ui;
-  private readonly rng: Rng;
-  private readonly probability: ProbabilityController;
+  private readonly config: ProbabilityConfig;
+  private readonly wallet: Wallet;
+  private readonly stakes: StakeLadder;
+  /** Side bets placed for the next round; each matches the main stake. */
+  private readonly sideBets = new Set<SideBetId>();
+  private readonly sideMultipliers: Record<SideBetId, number>;
+  private readonly betMultiples: Record<BetType, number>;
+  private readonly ladderMultiples: Record<TowerId, number[]>;
+  /** Outcome randomness backend, chosen at boot; its kind is stamped on every round. */
+  private readonly random: RandomBackend;
+  /**
+   * Cosmetic randomness (flight jitter, clouds, streaks, debris, particles).
+   * Reseeded per round from a separate stream of the round seed: the outcome
+   * source is never touched by rendering, and replays look identical.
+   */
+  private fx: Rng;
+  private fair: ProvablyFair;
+  private readonly ledger = new RoundLedger();
+  private readonly simulations = new SimulationClient();
 
   private state: GameState = 'idle';
-  private selectedTower: TowerId = 'A';
-  private balance = 1000;
+  /** Set by destroy(); in-flight animations stop at their next frame. */
+  private destroyed = false;
+  private readonly onResize = (): void => {
+    requestAnimationFrame(() => { if (!this.destroyed) this.layout(); });
+  };
+  /** QA: events the next START animates instead of a real round (see DebugConsole). */
+  private forced: { events: RoundEvents; onPlayed?: () => void } | null = null;
+  private selectedBet: BetType = 'A';
+  private lastRound: { round: FairRound; bet: BetType; resolution: RoundResolution; wave?: number } | null = null;
+  private ladderMode = false;
+  /** Ladder round in progress (between 'flying' and its popup). */
+  private ladder: {
+    run: CashOutLadder;
+    round: FairRound;
+    controller: ProbabilityController;
+    tower: TowerId;
+    balanceBefore: number;
+  } | null = null;
 
   // ── Scene graph ───────────────────────────────────────────────────────────
   private readonly root        = new PIXI.Container();
@@ -54,7 +118,20 @@ export class Game {
     strokeThickness: 5,
   }));
 
-  constructor() {
+  constructor(
+    wallet: Wallet,
+    config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG,
+    random: RandomBackend = createRandomBackend('mulberry32'),
+  ) {
+    this.wallet = wallet;
+    this.config = config;
+    this.random = random;
+    this.fair = new ProvablyFair(wallet.clientSeed ?? undefined, wallet.nonce, random.kind);
+    if (wallet.clientSeed === null) wallet.setClientSeed(this.fair.clientSeed);
+    this.stakes = new StakeLadder(config.stakeLadder, config.bet);
+    this.sideMultipliers = sideBetMultipliers(config);
+    this.betMultiples = betMultipliers(config);
+    this.ladderMultiples = { A: ladderMultipliers(config, 'A'), B: ladderMultipliers(config, 'B') };
     const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
     this.app = new PIXI.Application({
       view: canvas,
@@ -66,8 +143,7 @@ export class Game {
     });
 
     this.ui = new Ui();
-    this.rng = new Rng();
-    this.probability = new ProbabilityController(this.rng);
+    this.fx = new Rng();
 
     // Layer ordering (back → front)
     this.app.stage.addChild(this.root);
@@ -90,40 +166,238 @@ export class Game {
     this.buildPlane();
     this.layout();
 
-    window.addEventListener('resize', () => requestAnimationFrame(() => this.layout()));
+    window.addEventListener('resize', this.onResize);
     this.bindUi();
     this.enterBetting();
-    this.ui.setBalance(this.balance);
-    this.ui.setSeed(this.rng.getSeedHex());
+    this.ui.setBalance(this.wallet.balance);
+    this.ui.setModel(this.config);
+    this.ui.setBetOdds(this.betMultiples);
+    this.ui.setSeed(this.fair.serverSeedHash);
+  }
+
+  /** Shows a one-off message in the banner (e.g. a wallet notice at boot). */
+  notify(message: string): void {
+    this.ui.setMessage(message);
+  }
+
+  // ── Mode lifetime ─────────────────────────────────────────────────────────
+
+  /** Only between rounds: a ladder pot or a round in flight cannot be abandoned. */
+  requestLeave(): boolean {
+    if (this.state === 'betting') return true;
+    this.ui.setMessage('Finish the current round before switching games.');
+    return false;
+  }
+
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    window.removeEventListener('resize', this.onResize);
+    this.simulations.dispose();
+    this.ui.destroy();
+    this.app.destroy(true, { children: true });
   }
 
   // ── UI bindings ───────────────────────────────────────────────────────────
 
   private bindUi(): void {
-    this.ui.onTowerSelect((t) => {
+    this.ui.onBetSelect((bet) => {
       if (this.state === 'betting') {
-        this.selectedTower = t;
+        if (this.ladderMode && bet !== 'A' && bet !== 'B') return;
+        this.selectedBet = bet;
         this.applyTowerDim();
+        this.applyStake();
       }
     });
+    this.ui.onStake((action) => {
+      if (this.state !== 'betting') return;
+      this.stakes.apply(action);
+      this.applyStake();
+    });
+    this.ui.onSideBetToggle((id) => {
+      if (this.state !== 'betting' || this.sideMultipliers[id] <= 0) return;
+      if (this.sideBets.has(id)) this.sideBets.delete(id);
+      else this.sideBets.add(id);
+      this.applyStake();
+    });
+    this.ui.onLadderToggle(() => {
+      if (this.state !== 'betting') return;
+      this.ladderMode = !this.ladderMode;
+      if (this.ladderMode && this.selectedBet !== 'A' && this.selectedBet !== 'B') {
+        this.selectedBet = 'A';
+        this.ui.selectBet('A');
+        this.applyTowerDim();
+      }
+      this.ui.setLadderMode(this.ladderMode);
+      this.applyStake();
+    });
     this.ui.onPlay(async () => {
+      if (this.state === 'between-waves') {
+        await this.nextWave();
+        return;
+      }
       if (this.state !== 'betting') return;
-      await this.playRound();
+      if (this.forced) await this.playForcedRound(this.forced);
+      else if (this.ladderMode) await this.startLadder();
+      else await this.playRound();
+    });
+    this.ui.onCashOut(() => {
+      if (this.state === 'between-waves') this.finishLadder(true);
+    });
+    this.ui.onSim(() => this.showSimulation());
+    this.ui.onFair(() => this.showFairness());
+    this.ui.onHistory(() => this.ui.showHistory(this.ledger.entries, {
+      onReplay: (entry) => {
+        if (this.state !== 'betting' || !isSeedDerived(entry.round.rng)) return false;
+        void this.replay(entry.round, entry.round.nonce, entry.bet, entry.waves);
+        return true;
+      },
+      onExport: (format) => (format === 'csv' ? this.ledger.toCsv() : this.ledger.toJson()),
+    }));
+    this.ui.onResetWallet(() => {
+      if (this.state !== 'betting') return false;
+      this.resetWallet();
+      return true;
+    });
+  }
+
+  private resetWallet(): void {
+    this.wallet.reset();
+    this.fair = new ProvablyFair(undefined, 0, this.random.kind);
+    this.wallet.setClientSeed(this.fair.clientSeed);
+    this.ledger.clear();
+    this.lastRound = null;
+    this.ui.setBalance(this.wallet.balance);
+    this.ui.setSeed(this.fair.serverSeedHash);
+    this.ui.setMessage('Wallet reset. Fresh balance and seeds.');
+  }
+
+  /** Runs happen in the simulation worker; only the exact RTP is computed here. */
+  private showSimulation(): void {
+    let task: SimulationTask | null = null;
+    const view = this.ui.showSimulation(computeExactRtp(this.config), this.config, {
+      onRun: (rounds) => {
+        task?.cancel();
+        const current = this.simulations.run(
+          { rounds, config: this.config, ladderRounds: 100_000, sessions: 1000 },
+          (p) => { if (task === current) view.progress(p); },
+        );
+        task = current;
+        current.result.then(
+          (bundle) => {
+            if (task !== current) return;
+            if (bundle) view.complete(bundle);
+            else view.stopped('Cancelled');
+          },
+          (err: Error) => { if (task === current) view.stopped(`Simulation failed: ${err.message}`); },
+        );
+      },
+      onCancel: () => task?.cancel(),
     });
-    this.ui.onSim(() => this.ui.showSimulation(simulate(200_000)));
+  }
+
+  private showFairness(): void {
+    this.ui.showFairness(
+      { next: this.fair.commitment, last: this.lastRound },
+      {
+        // Safe at any time: a round in flight has already locked in its seeds.
+        onClientSeed: (seed) => {
+          this.fair.setClientSeed(seed);
+          this.wallet.setClientSeed(this.fair.clientSeed);
+          return this.fair.commitment;
+        },
+        onVerify: () => {
+          const last = this.lastRound;
+          if (!last || !isSeedDerived(last.round.rng)) return null;
+          return verifyRound(last.round, last.bet, last.resolution, this.config, last.wave);
+        },
+        onReplay: () => {
+          const last = this.lastRound;
+          if (!last || this.state !== 'betting' || !isSeedDerived(last.round.rng)) return false;
+          void this.replay(last.round, last.round.nonce, last.bet, last.wave);
+          return true;
+        },
+      },
+    );
+  }
+
+  /**
+   * Re-animates a past round from its revealed seeds and round index;
+   * for a ladder round pass the number of waves played to replay them all.
+   * Purely visual: wallet, nonce and the next commitment are untouched.
+   */
+  async replay(seeds: ReplaySeeds, round: number, bet: BetType, waves?: number): Promise<void> {
+    if (this.state !== 'betting' || !isSeedDerived(seeds.rng ?? 'mulberry32')) return;
+
+    this.state = 'replay';
+    this.ui.setState('replay');
+    this.ui.setPlayEnabled(false);
+    this.ui.setStakeEnabled(false);
+
+    const label = `Replaying round #${round} · ${BET_TYPES[bet].label}`;
+    const steps = waves === undefined ? [undefined] : Array.from({ length: waves }, (_, i) => i + 1);
+    for (const wave of steps) {
+      const { resolution, rngSeed } = replayRound(seeds, round, bet, this.config, wave);
+      this.reseedFx(rngSeed);
+      this.ui.setMessage(wave === undefined ? label : `${label} · wave ${wave}`);
+      this.cleanupRound();
+      this.resetTowers();
+      await this.runAnimation(resolution);
+      await this.sleep(700);
+    }
+    this.enterBetting();
+  }
+
+  /** QA: the next START animates `events` without a stake (null clears). */
+  forceNextRound(events: RoundEvents | null, onPlayed?: () => void): void {
+    this.forced = events ? { events, onPlayed } : null;
+    if (this.state === 'betting') {
+      this.ui.setMessage(events ? 'QA: forced round queued – press START.' : 'Pick a tower and press START.');
+    }
   }
 
   // ── Game flow ─────────────────────────────────────────────────────────────
 
+  /**
+   * Animates a forced round for the selected bet. Nothing is debited,
+   * credited, recorded or counted; the nonce and commitment are untouched.
+   */
+  private async playForcedRound(forced: { events: RoundEvents; onPlayed?: () => void }): Promise<void> {
+    this.forced = null;
+    const resolution = composeResolution(this.selectedBet, forced.events);
+
+    this.ui.setPlayEnabled(false);
+    this.ui.setStakeEnabled(false);
+    this.state = 'flying';
+    this.ui.setState('flying');
+    this.ui.setMessage('QA forced round – wallet untouched.');
+    this.cleanupRound();
+    this.resetTowers();
+    this.fx = new Rng();
+
+    await this.runAnimation(resolution);
+    await this.sleep(900);
+    forced.onPlayed?.();
+    this.enterBetting();
+    this.ui.setMessage(`QA forced round: ${BET_TYPES[this.selectedBet].label} would ${resolution.selectedTowerWins ? 'win' : 'lose'}.`);
+  }
+
   private async playRound(): Promise<void> {
-    if (this.balance < ProbabilityController.BET) {
-      this.ui.setMessage('Not enough FUN!');
+    const stake = this.stakes.stake;
+    const payout = this.payoutFor(stake);
+    const sideStakes = this.sideStakes();
+    const total = stake + totalSideStake(sideStakes);
+    const balanceBefore = this.wallet.balance;
+    if (!this.wallet.debit(total)) {
+      this.ui.setMessage(total > stake
+        ? `Not enough FUN for ${total} FUN (stake + side bets)!`
+        : `Not enough FUN for a ${stake} FUN stake!`);
       return;
     }
 
-    this.balance -= ProbabilityController.BET;
-    this.ui.setBalance(this.balance);
+    this.ui.setBalance(this.wallet.balance);
     this.ui.setPlayEnabled(false);
+    this.ui.setStakeEnabled(false);
     this.state = 'flying';
     this.ui.setState('flying');
     this.ui.setMessage('Plane incoming! Both towers dodge...');
@@ -131,21 +405,156 @@ export class Game {
     this.cleanupRound();    // destroy all FX from previous round
     this.resetTowers();
 
-    const resolution = this.probability.resolveRound(this.selectedTower);
+    // Outcome comes from the committed seeds; the next commitment is shown right away.
+    const round = this.fair.nextRound();
+    // Persist the advanced nonce now: a reload mid-round must never reuse it
+    this.wallet.recordRound({ clientSeed: this.fair.clientSeed, nonce: this.fair.nonce });
+    const resolution = new ProbabilityController(this.random.forRound(round), this.config)
+      .resolveRound(this.selectedBet);
+    this.reseedFx(deriveRoundSeed(round.serverSeed, round.clientSeed, round.nonce));
+    this.ui.setSeed(this.fair.serverSeedHash);
+
     await this.runAnimation(resolution);
+    this.lastRound = { round, bet: this.selectedBet, resolution };
 
     const win = resolution.selectedTowerWins;
-    if (win) {
-      this.balance += ProbabilityController.PAYOUT_ON_WIN;
-      this.ui.setBalance(this.balance);
+    const sideBets = settleSideBets(sideStakes, resolution, this.sideMultipliers);
+    const returned = (win ? payout : 0) + sideBets.reduce((sum, b) => sum + b.payout, 0);
+    if (returned > 0) {
+      this.wallet.credit(returned);
+      this.ui.setBalance(this.wallet.balance);
     }
+    this.ledger.append({
+      id: this.wallet.roundsPlayed,
+      timestamp: Date.now(),
+      bet: this.selectedBet,
+      stake,
+      resolution,
+      payout: win ? payout : 0,
+      sideBets,
+      balanceBefore,
+      balanceAfter: this.wallet.balance,
+      round,
+    });
 
     this.state = win ? 'win' : 'lose';
     this.ui.setState(this.state);
     this.ui.flash(win ? 'win-flash' : 'lose-flash');
 
     await this.sleep(180);
-    this.ui.showRoundPopup(win, win ? ProbabilityController.PAYOUT_ON_WIN : 0, () => this.enterBetting());
+    this.ui.showRoundPopup(this.selectedBet, resolution, win ? payout : 0, stake, () => this.enterBetting(), sideBets);
+  }
+
+  // ── Ladder mode ───────────────────────────────────────────────────────────
+
+  /** Takes the stake and plays the first wave of a ladder round. */
+  private async startLadder(): Promise<void> {
+    const tower = this.selectedBet;
+    if (tower !== 'A' && tower !== 'B') return;
+    const stake = this.stakes.stake;
+    const balanceBefore = this.wallet.balance;
+    if (!this.wallet.debit(stake)) {
+      this.ui.setMessage(`Not enough FUN for a ${stake} FUN stake!`);
+      return;
+    }
+    this.ui.setBalance(this.wallet.balance);
+    this.ui.setStakeEnabled(false);
+
+    const round = this.fair.nextRound();
+    this.wallet.recordRound({ clientSeed: this.fair.clientSeed, nonce: this.fair.nonce });
+    this.ui.setSeed(this.fair.serverSeedHash);
+
+    this.ladder = {
+      run: new CashOutLadder(this.ladderMultiples[tower], stake),
+      round,
+      controller: new ProbabilityController(this.random.forRound(round), this.config),
+      tower,
+      balanceBefore,
+    };
+    await this.nextWave();
+  }
+
+  private async nextWave(): Promise<void> {
+    const ladder = this.ladder;
+    if (!ladder || ladder.run.isOver) return;
+    const { run, round, tower } = ladder;
+    const wave = run.wave + 1;
+
+    this.ui.setPlayEnabled(false);
+    this.ui.setCashOut(null);
+    this.state = 'flying';
+    this.ui.setState('flying');
+    this.ui.setMessage(`Wave ${wave}! Tower ${tower} braces itself...`);
+
+    this.cleanupRound();
+    this.resetTowers();
+
+    const resolution = ladder.controller.resolveWave(tower, wave);
+    this.reseedFx(deriveWaveSeed(round.serverSeed, round.clientSeed, round.nonce, wave));
+    await this.runAnimation(resolution);
+    this.lastRound = { round, bet: tower, resolution, wave };
+
+    if (!resolution.selectedTowerWins) {
+      run.onDestroyed();
+      this.finishLadder(false);
+      return;
+    }
+
+    run.onSafeWave();
+    if (run.atTop) {
+      this.ui.setMessage(`Top of the ladder! Wave ${wave} survived.`);
+      this.finishLadder(true);
+      return;
+    }
+
+    this.state = 'between-waves';
+    this.ui.setState('between-waves');
+    this.ui.setCashOut(run.pot);
+    this.ui.setPlayLabel(`NEXT WAVE · ×${run.nextMultiplier.toFixed(2)}`);
+    this.ui.setPlayEnabled(true);
+    this.ui.setMessage(
+      `Wave ${wave} survived! Pot ×${run.multiplier.toFixed(2)}. Cash out or face wave ${wave + 1}.`,
+    );
+  }
+
+  /** Settles the ladder round: pays the pot on a cash-out, records it and shows the popup. */
+  private finishLadder(cashedOut: boolean): void {
+    const ladder = this.ladder;
+    const last = this.lastRound;
+    if (!ladder || !last) return;
+    this.ladder = null;
+
+    const { run, round, tower } = ladder;
+    const stake = run.stake;
+    const returned = cashedOut ? run.cashOut() : 0;
+    if (returned > 0) {
+      this.wallet.credit(returned);
+      this.ui.setBalance(this.wallet.balance);
+    }
+
+    this.ui.setCashOut(null);
+    this.ui.setPlayEnabled(false);
+    this.ledger.append({
+      id: this.wallet.roundsPlayed,
+      timestamp: Date.now(),
+      bet: tower,
+      stake,
+      resolution: last.resolution,
+      payout: returned,
+      sideBets: [],
+      waves: last.wave,
+      balanceBefore: ladder.balanceBefore,
+      balanceAfter: this.wallet.balance,
+      round,
+    });
+
+    this.state = cashedOut ? 'win' : 'lose';
+    this.ui.setState(this.state);
+    this.ui.flash(cashedOut ? 'win-flash' : 'lose-flash');
+    this.ui.showLadderPopup(
+      { tower, cashedOut, waves: cashedOut ? run.wave : run.wave + 1, returned, stake },
+      () => this.enterBetting(),
+    );
   }
 
   private async runAnimation(res: RoundResolution): Promise<void> {
@@ -173,15 +582,56 @@ export class Game {
     }
   }
 
+  private applyStake(): void {
+    const stake = this.stakes.stake;
+    this.ui.setStake(stake, this.payoutFor(stake), this.stakes);
+    this.ui.setSideBets(this.sideBets, this.sideMultipliers);
+    this.ui.setPlayLabel(this.ladderMode
+      ? `START LADDER · ${stake} FUN`
+      : `START ROUND · ${stake + totalSideStake(this.sideStakes())} FUN`);
+  }
+
+  /** Total returned if the selected bet wins at `stake` (ladder: after the first wave). */
+  private payoutFor(stake: number): number {
+    const bet = this.selectedBet;
+    if (this.ladderMode && (bet === 'A' || bet === 'B')) return stake * this.ladderMultiples[bet][1];
+    return stake * this.betMultiples[bet];
+  }
+
+  private sideStakes(): SideBetStakes {
+    const stakes: SideBetStakes = {};
+    if (this.ladderMode) return stakes;
+    for (const id of this.sideBets) stakes[id] = this.stakes.stake;
+    return stakes;
+  }
+
+  private reseedFx(roundSeed: number): void {
+    this.fx = new Rng(roundSeed).derive(FX_STREAM);
+  }
+
   private enterBetting(): void {
     this.cleanupRound();          // destroy all round FX before showing betting UI
     this.state = 'betting';
     this.ui.setState('betting');
     this.ui.setMessage('Pick a tower and press START.');
     this.ui.setPlayEnabled(true);
-    this.ui.setPlayLabel('START ROUND');
+    this.ui.setStakeEnabled(true);
+    this.applyStake();
     this.resetTowers();
     this.applyTowerDim();
+    this.checkBust();
+  }
+
+  /** Applies the daily top-up rule once the player cannot cover the smallest stake. */
+  private checkBust(): void {
+    if (!this.wallet.isBust) return;
+    const granted = this.wallet.claimDailyTopUp();
+    if (granted > 0) {
+      this.ui.setBalance(this.wallet.balance);
+      this.ui.setMessage(`Daily top-up: +${granted.toFixed(0)} FUN. Good luck!`);
+    } else {
+      this.ui.setMessage('Out of FUN! Come back tomorrow for a daily top-up.');
+    }
   }
 
   /**
@@ -230,7 +680,7 @@ export class Game {
     const groundY = H * 0.82;
 
     // Cruise altitude: ~52% up the tower body, slight random variance
-    const flightY = groundY - TH * 0.52 + (this.rng.next() - 0.5) * TH * 0.10;
+    const flightY = groundY - TH * 0.52 + (this.fx.next() - 0.5) * TH * 0.10;
 
     const margin = 130;
     const startX = leftToRight ? -margin : W + margin;
@@ -377,8 +827,8 @@ export class Game {
       cloud.drawCircle(-r * 0.72,  r * 0.25, r * 0.60);
       cloud.endFill();
 
-      const ox = (this.rng.next() - 0.5) * 50;
-      const oy = (this.rng.next() - 0.5) * 30;
+      const ox = (this.fx.next() - 0.5) * 50;
+      const oy = (this.fx.next() - 0.5) * 30;
       cloud.position.set(x + ox, y + oy);
       cloud.scale.set(0.4);
       this.fxCtr.addChild(cloud);
@@ -395,10 +845,10 @@ export class Game {
 
     // Horizontal wind streaks (cartoon speed lines)
     for (let i = 0; i < 6; i++) {
-      const lx  = x + (this.rng.next() - 0.5) * TW * 1.4;
-      const ly  = y + (this.rng.next() - 0.5) * TH * 0.55;
-      const len = 22 + this.rng.next() * 44;
-      const dir = this.rng.chance(0.5) ? 1 : -1;
+      const lx  = x + (this.fx.next() - 0.5) * TW * 1.4;
+      const ly  = y + (this.fx.next() - 0.5) * TH * 0.55;
+      const len = 22 + this.fx.next() * 44;
+      const dir = this.fx.chance(0.5) ? 1 : -1;
 
       const line = new PIXI.Graphics();
       line.lineStyle(2.5, 0xffffff, 0.75);
@@ -620,6 +1070,7 @@ export class Game {
     const start = performance.now();
     return new Promise((resolve) => {
       const step = (now: number) => {
+        if (this.destroyed) return;
         const elapsed = now - start;
         const t       = Math.min(1, elapsed / durationMs);
         const wA = Math.sin(elapsed * 0.019);
@@ -894,12 +1345,12 @@ export class Game {
     for (let i = 0; i < 20; i++) {
       const g = new PIXI.Graphics();
       g.beginFill(i % 3 === 0 ? 0xffd740 : color);
-      g.drawCircle(0, 0, 2 + this.rng.next() * 3.5);
+      g.drawCircle(0, 0, 2 + this.fx.next() * 3.5);
       g.endFill();
       g.position.set(x, y);
       this.fxCtr.addChild(g);
-      const angle = this.rng.next() * Math.PI * 2;
-      const spd   = 2.5 + this.rng.next() * 5;
+      const angle = this.fx.next() * Math.PI * 2;
+      const spd   = 2.5 + this.fx.next() * 5;
       this.tween(460, (t) => {
         g.x = x + Math.cos(angle) * spd * 55 * t;
         g.y = y + Math.sin(angle) * spd * 55 * t + 90 * t * t;
@@ -912,16 +1363,16 @@ export class Game {
   private spawnDebris(x: number, y: number, color: number, count = 22): void {
     for (let i = 0; i < count; i++) {
       const g = new PIXI.Graphics();
-      g.beginFill(this.rng.chance(0.55) ? color : 0xffffff);
-      const dw = 3 + this.rng.next() * 6;
-      const dh = 3 + this.rng.next() * 6;
+      g.beginFill(this.fx.chance(0.55) ? color : 0xffffff);
+      const dw = 3 + this.fx.next() * 6;
+      const dh = 3 + this.fx.next() * 6;
       g.drawRect(-dw / 2, -dh / 2, dw, dh);
       g.endFill();
       g.position.set(x, y);
       this.fxCtr.addChild(g);
-      const angle = -Math.PI / 2 + (this.rng.next() - 0.5) * 2.4;
-      const spd   = 1.5 + this.rng.next() * 4.5;
-      const spin  = (this.rng.next() - 0.5) * 0.55;
+      const angle = -Math.PI / 2 + (this.fx.next() - 0.5) * 2.4;
+      const spd   = 1.5 + this.fx.next() * 4.5;
+      const spin  = (this.fx.next() - 0.5) * 0.55;
       this.tween(720, (t) => {
         g.x        = x + Math.cos(angle) * spd * 85 * t;
         g.y        = y + Math.sin(angle) * spd * 85 * t + 300 * t * t;
@@ -933,10 +1384,12 @@ export class Game {
 
   // ── Utilities ─────────────────────────────────────────────────────────────
 
+  /** Never settles once the game is destroyed, so nothing chained on it runs. */
   private tween(durationMs: number, onUpdate: (t: number) => void): Promise<void> {
     const start = performance.now();
     return new Promise((resolve) => {
       const step = (now: number) => {
+        if (this.destroyed) return;
         const t = Math.min(1, (now - start) / durationMs);
         onUpdate(t);
         t < 1 ? requestAnimationFrame(step) : resolve();
@@ -946,7 +1399,7 @@ export class Game {
   }
 
   private sleep(ms: number): Promise<void> {
-    return new Promise((r) => setTimeout(r, ms));
+    return new Promise((r) => setTimeout(() => { if (!this.destroyed) r(); }, ms));
   }
 
   private easeOutCubic(t: number): number { return 1 - (1 - t) ** 3; }
@@ -966,7 +1419,9 @@ export class Game {
    */
   private applyTowerDim(): void {
     if (this.state !== 'betting') return;
-    this.towerA.alpha = this.selectedTower === 'A' ? 1.0 : 0.48;
-    this.towerB.alpha = this.selectedTower === 'B' ? 1.0 : 0.48;
+    // Combination bets involve both towers, so neither is dimmed
+    const bet = this.selectedBet;
+    this.towerA.alpha = bet === 'B' ? 0.48 : 1.0;
+    this.towerB.alpha = bet === 'A' ? 0.48 : 1.0;
   }
 }
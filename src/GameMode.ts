@@ -0,0 +1,42 @@
+export type GameModeId = 'towers' | 'cards';
+
+export const GAME_MODE_IDS: readonly GameModeId[] = ['towers', 'cards'];
+
+export interface GameModeDef {
+  id: GameModeId;
+  label: string;
+  icon: string;
+  /** One-line pitch shown on the picker screen. */
+  blurb: string;
+}
+
+export const GAME_MODES: Record<GameModeId, GameModeDef> = {
+  towers: {
+    id: 'towers',
+    label: 'Twin Towers Dodge',
+    icon: '🏙️',
+    blurb: 'Bet on which tower survives the plane.',
+  },
+  cards: {
+    id: 'cards',
+    label: 'Scroll Doom',
+    icon: '📱',
+    blurb: 'Swipe for ×1.10 per card – cash out before the bomb.',
+  },
+};
+
+/**
+ * A running game mode. The ModeRouter creates one per switch and owns its
+ * lifetime; modes share the wallet and the HUD but nothing else.
+ */
+export interface GameMode {
+  /** Shows a one-off message in the banner (e.g. a wallet notice at boot). */
+  notify(message: string): void;
+  /**
+   * Whether the mode can be left now. Returns false (and tells the player
+   * why) mid-round, where leaving would forfeit a stake on the table.
+   */
+  requestLeave(): boolean;
+  /** Removes every canvas, listener, timer and worker the mode created. */
+  destroy(): void;
+}
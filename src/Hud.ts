@@ -0,0 +1,114 @@
+/** What the result popup shows for a finished round. */
+export interface PopupContent {
+  icon: string;
+  title: string;
+  subtitle: string;
+  /** Signed amount line, e.g. "+20 FUN" or "−10 FUN". */
+  amount: string;
+  /** Styles the amount and button as a win (green) or a loss (red). */
+  win: boolean;
+  /** Extra lines under the amount (HTML), e.g. settled side bets. */
+  sideHtml?: string;
+  /** Shows the "verify round" link – provably-fair rounds only. */
+  verifiable?: boolean;
+}
+
+/**
+ * DOM chrome shared by every game mode: balance / state pills, message
+ * banner, screen flash and the round result popup.
+ *
+ * Each mode's UI extends Hud and registers its listeners through `listen`,
+ * so `destroy` removes every one of them when the mode is torn down.
+ */
+export class Hud {
+  private readonly listeners = new AbortController();
+
+  protected readonly el = <T extends HTMLElement = HTMLElement>(id: string): T => {
+    const e = document.getElementById(id) as T | null;
+    if (!e) throw new Error(`UI: #${id} not found`);
+    return e;
+  };
+
+  // ── Element references ───────────────────────────────────────────────────
+  private readonly elBalance    = this.el('balance-val');
+  private readonly elReset      = this.el<HTMLButtonElement>('btn-reset');
+  private readonly elState      = this.el('state-val');
+  private readonly elMessage    = this.el('message-val');
+  private readonly elFlash      = this.el('flash');
+  private readonly elPopup      = this.el('popup-overlay');
+  private readonly elPopupIcon  = this.el('popup-icon');
+  private readonly elPopupTitle = this.el('popup-title');
+  private readonly elPopupSub   = this.el('popup-subtitle');
+  private readonly elPopupAmt   = this.el('popup-amount');
+  private readonly elPopupSide  = this.el('popup-side');
+  private readonly elPopupBtn   = this.el<HTMLButtonElement>('popup-btn');
+  protected readonly elPopupFair = this.el<HTMLButtonElement>('popup-verify');
+
+  /** Adds a listener that lives until `destroy`. */
+  protected listen<K extends keyof HTMLElementEventMap>(
+    target: HTMLElement,
+    type: K,
+    cb: (e: HTMLElementEventMap[K]) => void,
+  ): void {
+    target.addEventListener(type, cb, { signal: this.listeners.signal });
+  }
+
+  /**
+   * Wallet reset after a confirm dialog. The callback returns false when
+   * a reset is not allowed right now (mid-round).
+   */
+  onResetWallet(cb: () => boolean): void {
+    this.listen(this.elReset, 'click', () => {
+      if (!window.confirm('Reset wallet? Balance, round counter and seeds start over.')) return;
+      if (!cb()) this.setMessage('Finish the current round before resetting.');
+    });
+  }
+
+  // ── HUD setters ──────────────────────────────────────────────────────────
+
+  setBalance(v: number): void    { this.elBalance.textContent = v.toFixed(0); }
+  setState(s: string): void      { this.elState.textContent = s; }
+  setMessage(msg: string): void  { this.elMessage.textContent = msg; }
+
+  // ── Flash effect ─────────────────────────────────────────────────────────
+
+  flash(type: 'win-flash' | 'lose-flash' | 'surprise-flash'): void {
+    this.elFlash.className = '';
+    void this.elFlash.offsetWidth; // force reflow to restart animation
+    this.elFlash.className = type;
+  }
+
+  // ── Round result popup ───────────────────────────────────────────────────
+
+  /** Shows the popup; `onClose` fires once, when the player dismisses it. */
+  showPopup(content: PopupContent, onClose: () => void): void {
+    const cls = content.win ? 'win' : 'lose';
+    this.elPopupIcon.textContent  = content.icon;
+    this.elPopupTitle.textContent = content.title;
+    this.elPopupSub.textContent   = content.subtitle;
+    this.elPopupAmt.textContent   = content.amount;
+    this.elPopupAmt.className     = cls;
+    this.elPopupSide.innerHTML    = content.sideHtml ?? '';
+    this.elPopupBtn.textContent   = '▶ PLAY AGAIN';
+    this.elPopupBtn.className     = cls;
+    this.elPopupFair.hidden       = !content.verifiable;
+
+    this.elPopup.classList.add('visible');
+
+    const handler = () => {
+      this.elPopupBtn.removeEventListener('click', handler);
+      this.elPopup.classList.remove('visible');
+      onClose();
+    };
+    this.listen(this.elPopupBtn, 'click', handler);
+  }
+
+  // ── Teardown ─────────────────────────────────────────────────────────────
+
+  /** Removes every listener this UI added and closes the popup. */
+  destroy(): void {
+    this.listeners.abort();
+    this.elPopup.classList.remove('visible');
+    this.elFlash.className = '';
+  }
+}
@@ -0,0 +1,106 @@
+import { TowerId } from './ProbabilityController';
+import { ProbabilityConfig } from './ProbabilityConfig';
+import { computeExactRtp } from './RtpCalculator';
+
+/** Exact chance that `tower` survives a single wave (one full round resolution). */
+export function waveSurvivalProbability(config: ProbabilityConfig, tower: TowerId): number {
+  return computeExactRtp(config).winProbabilityByTower[tower];
+}
+
+/**
+ * Pot multiplier after surviving 0…maxWaves waves (index = waves; 1 at the start).
+ *
+ * The house edge is taken once, on the first wave; every later wave then
+ * multiplies the pot by 1 / P(survive). Cashing out after any number of waves
+ * therefore returns exactly `config.targetRtp`, whatever the strategy.
+ */
+export function ladderMultipliers(config: ProbabilityConfig, tower: TowerId): number[] {
+  const q = waveSurvivalProbability(config, tower);
+  return Array.from({ length: config.ladder.maxWaves + 1 }, (_, w) =>
+    (w === 0 ? 1 : q > 0 ? config.targetRtp / Math.pow(q, w) : 0));
+}
+
+/**
+ * Pot of one ladder-mode round, modelled on the card game's Economy:
+ * each safe wave grows the multiplier, a destroyed tower loses the pot,
+ * and the player may cash out between waves.
+ */
+export class CashOutLadder {
+  private readonly multipliers: readonly number[];
+  private readonly _stake: number;
+  private _wave = 0;
+  private _busted = false;
+  private _cashedOut = false;
+
+  /** `multipliers` as returned by ladderMultipliers. */
+  constructor(multipliers: readonly number[], stake: number) {
+    this.multipliers = multipliers;
+    this._stake = stake;
+  }
+
+  get stake(): number { return this._stake; }
+  /** Waves survived so far. */
+  get wave(): number { return this._wave; }
+  get maxWaves(): number { return this.multipliers.length - 1; }
+  get multiplier(): number { return this.multipliers[this._wave]; }
+  /** Multiplier the pot grows to if the next wave is survived. */
+  get nextMultiplier(): number { return this.multipliers[Math.min(this._wave + 1, this.maxWaves)]; }
+  get pot(): number { return this._busted ? 0 : this._stake * this.multiplier; }
+  get isOver(): boolean { return this._busted || this._cashedOut; }
+  /** No more waves allowed: the pot must be cashed out. */
+  get atTop(): boolean { return this._wave >= this.maxWaves; }
+  get canCashOut(): boolean { return !this.isOver && this._wave >= 1; }
+
+  onSafeWave(): void {
+    if (this.isOver || this.atTop) throw new Error('CashOutLadder: no wave to survive');
+    this._wave++;
+  }
+
+  onDestroyed(): void {
+    this._busted = true;
+  }
+
+  /** Ends the round and returns the pot. */
+  cashOut(): number {
+    if (!this.canCashOut) throw new Error('CashOutLadder: nothing to cash out');
+    this._cashedOut = true;
+    return this.pot;
+  }
+}
+
+// ── Cash-out strategies ──────────────────────────────────────────────────────
+
+/** Decides, between waves, whether to take the pot. */
+export interface CashOutStrategy {
+  id: string;
+  label: string;
+  shouldCashOut(wave: number, multiplier: number): boolean;
+}
+
+/** Cash out as soon as `waves` waves have been survived. */
+export function cashOutAfterWaves(waves: number): CashOutStrategy {
+  return {
+    id: `waves-${waves}`,
+    label: `Cash out after ${waves} wave${waves === 1 ? '' : 's'}`,
+    shouldCashOut: (wave) => wave >= waves,
+  };
+}
+
+/** Cash out once the pot multiplier reaches `target`. */
+export function cashOutAtMultiplier(target: number): CashOutStrategy {
+  return {
+    id: `mult-${target}`,
+    label: `Cash out at ×${target}`,
+    shouldCashOut: (_wave, multiplier) => multiplier >= target,
+  };
+}
+
+/** Strategies compared in the simulation modal. */
+export const DEFAULT_CASH_OUT_STRATEGIES: CashOutStrategy[] = [
+  cashOutAfterWaves(1),
+  cashOutAfterWaves(2),
+  cashOutAfterWaves(3),
+  cashOutAfterWaves(5),
+  cashOutAtMultiplier(10),
+  { id: 'never', label: 'Ride to the top', shouldCashOut: () => false },
+];
@@ -0,0 +1,120 @@
+import { GAME_MODES, GAME_MODE_IDS, GameMode, GameModeId } from './GameMode';
+
+/** Builds a fresh instance of a mode; may load it lazily. */
+export type GameModeFactory = () => GameMode | Promise<GameMode>;
+
+/**
+ * Boots one game mode at a time. The mode comes from `?mode=<id>`, or from
+ * the picker screen when the param is missing or unknown; the HUD's GAMES
+ * pill leaves the running mode (if it allows) and returns to the picker.
+ *
+ * Every switch destroys the old mode before the next one is built, so the
+ * only state carried across is what the factories close over (the wallet).
+ */
+export class ModeRouter {
+  private readonly factories: Record<GameModeId, GameModeFactory>;
+  private readonly picker: HTMLElement;
+  private current: GameMode | null = null;
+  private opening = false;
+  /** Shown by the first mode that opens, then dropped. */
+  private notice: string | null;
+
+  constructor(factories: Record<GameModeId, GameModeFactory>, notice: string | null = null) {
+    this.factories = factories;
+    this.notice = notice;
+    this.picker = element('mode-picker');
+
+    const list = element('mode-list');
+    list.innerHTML = GAME_MODE_IDS.map((id) => {
+      const mode = GAME_MODES[id];
+      return `<button class="mode-option" data-mode="${id}">
+        <span class="mode-icon">${mode.icon}</span>
+        <span class="mode-label">${mode.label}</span>
+        <span class="mode-blurb">${mode.blurb}</span>
+      </button>`;
+    }).join('');
+    for (const btn of list.querySelectorAll<HTMLButtonElement>('[data-mode]')) {
+      btn.addEventListener('click', () => void this.open(btn.dataset.mode as GameModeId));
+    }
+    element('btn-mode').addEventListener('click', () => this.leave());
+  }
+
+  /** Opens the mode named by `?mode=`, or the picker. */
+  async start(): Promise<void> {
+    const id = new URLSearchParams(window.location.search).get('mode');
+    if (id === null) return this.showPicker();
+    if (!isModeId(id)) {
+      console.warn(`Unknown mode "${id}", showing the picker`);
+      return this.showPicker();
+    }
+    await this.open(id);
+  }
+
+  /** Tears down the running mode (if any) and builds `id` in its place. */
+  async open(id: GameModeId): Promise<void> {
+    if (this.opening) return;
+    this.opening = true;
+    try {
+      this.teardown();
+      ensureCanvas();
+      this.picker.classList.remove('visible');
+      document.body.dataset.mode = id;
+      setModeParam(id);
+
+      this.current = await this.factories[id]();
+      if (this.notice) {
+        this.current.notify(this.notice);
+        this.notice = null;
+      }
+    } finally {
+      this.opening = false;
+    }
+  }
+
+  /** Back to the picker, unless the running mode refuses (mid-round). */
+  leave(): void {
+    if (this.opening) return;
+    if (this.current && !this.current.requestLeave()) return;
+    this.teardown();
+    this.showPicker();
+  }
+
+  private teardown(): void {
+    this.current?.destroy();
+    this.current = null;
+  }
+
+  private showPicker(): void {
+    delete document.body.dataset.mode;
+    setModeParam(null);
+    this.picker.classList.add('visible');
+  }
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+function isModeId(id: string): id is GameModeId {
+  return GAME_MODE_IDS.includes(id as GameModeId);
+}
+
+function element(id: string): HTMLElement {
+  const e = document.getElementById(id);
+  if (!e) throw new Error(`ModeRouter: #${id} not found`);
+  return e;
+}
+
+/** Pixi removes its canvas on destroy; each mode gets a fresh one under #app. */
+function ensureCanvas(): void {
+  if (document.getElementById('game-canvas')) return;
+  const canvas = document.createElement('canvas');
+  canvas.id = 'game-canvas';
+  element('app').prepend(canvas);
+}
+
+/** Keeps `?mode=` in step with the running mode without adding history entries. */
+function setModeParam(id: GameModeId | null): void {
+  const url = new URL(window.location.href);
+  if (id === null) url.searchParams.delete('mode');
+  else url.searchParams.set('mode', id);
+  window.history.replaceState(window.history.state, '', url);
+}
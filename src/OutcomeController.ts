@@ -1,4 +1,4 @@
-import { Rng } from './Rng';
+import { RandomSource } from './RandomSource';
 
 /**
  * Outcome types for a round – set once at round start.
@@ -17,7 +17,7 @@ export type RunType = 'short' | 'medium' | 'long';
  * Probability never exceeds 30%, never goes to 0.
  */
 export class OutcomeController {
-  private rng: Rng;
+  private rng: RandomSource;
   private runType: RunType = 'medium';
   private consecutiveLosses: number = 0;
   private consecutiveWins: number = 0;
@@ -37,12 +37,17 @@ export class OutcomeController {
     long:   0.015,
   };
 
-  constructor(rng: Rng) {
+  constructor(rng: RandomSource) {
     this.rng = rng;
   }
 
-  /** Call at the beginning of each round to decide run type. */
-  startRound(): void {
+  /**
+   * Call at the beginning of each round to decide run type. `rng`, if given,
+   * is the round's own outcome source and replaces the current one; streaks
+   * carry over.
+   */
+  startRound(rng?: RandomSource): void {
+    if (rng) this.rng = rng;
     this.roundNumber++;
     const r = this.rng.next();
     if (r < 0.30) {
@@ -56,6 +61,13 @@ export class OutcomeController {
 
   get currentRunType(): RunType { return this.runType; }
 
+  /** Streak adjustment to the bomb probability – subtle, never obvious. */
+  get streakFactor(): number {
+    if (this.consecutiveLosses >= 3) return 0.80; // slight mercy after losses
+    if (this.consecutiveWins >= 3) return 1.10;   // slight correction after wins
+    return 1;
+  }
+
   /**
    * Returns bomb probability for the current swipe.
    * swipeIndex = 0 means first swipe of the round.
@@ -64,12 +76,7 @@ export class OutcomeController {
     let prob = OutcomeController.BASE_PROB[this.runType]
       + OutcomeController.GROW_RATE[this.runType] * swipeIndex;
 
-    // Streak adjustments – subtle, never obvious
-    if (this.consecutiveLosses >= 3) {
-      prob *= 0.80; // slight mercy after losses
-    } else if (this.consecutiveWins >= 3) {
-      prob *= 1.10; // slight correction after wins
-    }
+    prob *= this.streakFactor;
 
     // Clamp to [0.04, 0.30]
     return Math.min(0.30, Math.max(0.04, prob));
@@ -0,0 +1,211 @@
+import rtp92 from './configs/rtp-92.json';
+import rtp95 from './configs/rtp-95.json';
+import rtp97 from './configs/rtp-97.json';
+import { PlaneOutcome } from './ProbabilityController';
+
+/** Optional side bets on special round events (see SideBets.ts). */
+export type SideBetId = 'doublePlane' | 'collapse' | 'cleanMiss';
+export const SIDE_BET_IDS: readonly SideBetId[] = ['doublePlane', 'collapse', 'cleanMiss'];
+
+/**
+ * Data-driven probability model for Twin Towers Dodge.
+ * Everything ProbabilityController, Simulation and the UI need to know about
+ * the math lives here, so RTP variants can ship as JSON without code changes.
+ */
+export interface ProbabilityConfig {
+  id: string;
+  label: string;
+  /** Reference stake; also the stake selected at boot. */
+  bet: number;
+  /** Total returned on a win at the reference stake (stake included). Scales with the stake. */
+  payoutOnWin: number;
+  /** Stakes the player may choose from, strictly ascending; must contain `bet`. */
+  stakeLadder: number[];
+  targetRtp: number;
+  /** Target RTP of each side bet; its payout is priced from the exact event probability. */
+  sideBetRtp: Record<SideBetId, number>;
+  /** Ladder (cash-out) mode: a tower that survives this many waves is cashed out automatically. */
+  ladder: { maxWaves: number };
+  /** Base plane outcome weights from the design brief (normalized at roll time). */
+  firstPlane: { hitA: number; hitB: number; miss: number };
+  /** Chance that a missing first plane is followed by a second one. */
+  doublePlaneOnMiss: number;
+  /** Base self-collapse chance (before tuning). */
+  collapse: number;
+  /** Multipliers applied on top of the base values. */
+  tuning: {
+    hitWeightMultiplier: number;
+    missWeightMultiplier: number;
+    collapseMultiplier: number;
+  };
+}
+
+/**
+ * The original hand-tuned model and the boot default. Base design: hit A
+ * 40%, hit B 40%, miss 20%, double plane on miss 10%, collapse 5%; the
+ * tuning makes that 45 / 45 / 10 and a 14% collapse.
+ *
+ * Its exact RTP (computeExactRtp, RtpCalculator.ts) is 101.463%, above its
+ * 95% target; rtp-95 is the variant that meets it.
+ */
+export const DEFAULT_PROBABILITY_CONFIG: ProbabilityConfig = {
+  id: 'standard',
+  label: 'Standard',
+  bet: 10,
+  payoutOnWin: 20,
+  stakeLadder: [1, 2, 5, 10, 20, 50, 100],
+  targetRtp: 0.95,
+  sideBetRtp: { doublePlane: 0.9, collapse: 0.9, cleanMiss: 0.9 },
+  ladder: { maxWaves: 10 },
+  firstPlane: { hitA: 0.4, hitB: 0.4, miss: 0.2 },
+  doublePlaneOnMiss: 0.10,
+  collapse: 0.05,
+  tuning: {
+    hitWeightMultiplier: 1.125,
+    missWeightMultiplier: 0.5,
+    collapseMultiplier: 2.8,
+  },
+};
+
+/** Bundled model variants, keyed by id. */
+export const PROBABILITY_CONFIGS: Record<string, ProbabilityConfig> = Object.fromEntries(
+  [DEFAULT_PROBABILITY_CONFIG, ...[rtp92, rtp95, rtp97].map((raw) => parseProbabilityConfig(raw))]
+    .map((c) => [c.id, c]),
+);
+
+/** Return multiple on a win, e.g. 2 for bet 10 / payout 20. */
+export function payoutMultiplier(config: ProbabilityConfig): number {
+  return config.payoutOnWin / config.bet;
+}
+
+/** Total returned on a win at the given stake. */
+export function payoutForStake(config: ProbabilityConfig, stake: number): number {
+  return stake * payoutMultiplier(config);
+}
+
+/** Tuned, unnormalized weights of a single plane roll. */
+export function tunedPlaneWeights(config: ProbabilityConfig): Record<PlaneOutcome, number> {
+  const { firstPlane, tuning } = config;
+  return {
+    hitA: firstPlane.hitA * tuning.hitWeightMultiplier,
+    hitB: firstPlane.hitB * tuning.hitWeightMultiplier,
+    miss: firstPlane.miss * tuning.missWeightMultiplier,
+  };
+}
+
+/** Per-round self-collapse chance after tuning (capped at 1). */
+export function effectiveCollapseChance(config: ProbabilityConfig): number {
+  return Math.min(1, config.collapse * config.tuning.collapseMultiplier);
+}
+
+/**
+ * Validates untrusted JSON (e.g. `JSON.parse` of a config file) and returns a
+ * typed copy. Throws a single Error listing every problem found.
+ */
+export function parseProbabilityConfig(raw: unknown): ProbabilityConfig {
+  const issues: string[] = [];
+  const obj = asRecord(raw, '', issues);
+
+  const firstPlane = asRecord(obj.firstPlane, 'firstPlane', issues);
+  const sideBetRtp = obj.sideBetRtp === undefined
+    ? { ...DEFAULT_PROBABILITY_CONFIG.sideBetRtp }
+    : asRecord(obj.sideBetRtp, 'sideBetRtp', issues);
+  const ladder = obj.ladder === undefined
+    ? { ...DEFAULT_PROBABILITY_CONFIG.ladder }
+    : asRecord(obj.ladder, 'ladder', issues);
+  const tuning = asRecord(obj.tuning, 'tuning', issues);
+
+  const config: ProbabilityConfig = {
+    id: str(obj.id, 'id', issues),
+    label: obj.label === undefined && typeof obj.id === 'string' ? obj.id : str(obj.label, 'label', issues),
+    bet: num(obj.bet, 'bet', issues, { gt: 0 }),
+    payoutOnWin: num(obj.payoutOnWin, 'payoutOnWin', issues, { gt: 0 }),
+    stakeLadder: obj.stakeLadder === undefined && typeof obj.bet === 'number'
+      ? [obj.bet]
+      : numList(obj.stakeLadder, 'stakeLadder', issues),
+    targetRtp: num(obj.targetRtp, 'targetRtp', issues, { gt: 0, max: 2 }),
+    sideBetRtp: Object.fromEntries(SIDE_BET_IDS.map((id) => [
+      id,
+      num(sideBetRtp[id], `sideBetRtp.${id}`, issues, { gt: 0, max: 2 }),
+    ])) as Record<SideBetId, number>,
+    ladder: {
+      maxWaves: num(ladder.maxWaves, 'ladder.maxWaves', issues, { min: 1, max: 50 }),
+    },
+    firstPlane: {
+      hitA: num(firstPlane.hitA, 'firstPlane.hitA', issues, { min: 0 }),
+      hitB: num(firstPlane.hitB, 'firstPlane.hitB', issues, { min: 0 }),
+      miss: num(firstPlane.miss, 'firstPlane.miss', issues, { min: 0 }),
+    },
+    doublePlaneOnMiss: num(obj.doublePlaneOnMiss, 'doublePlaneOnMiss', issues, { min: 0, max: 1 }),
+    collapse: num(obj.collapse, 'collapse', issues, { min: 0, max: 1 }),
+    tuning: {
+      hitWeightMultiplier: num(tuning.hitWeightMultiplier, 'tuning.hitWeightMultiplier', issues, { min: 0 }),
+      missWeightMultiplier: num(tuning.missWeightMultiplier, 'tuning.missWeightMultiplier', issues, { min: 0 }),
+      collapseMultiplier: num(tuning.collapseMultiplier, 'tuning.collapseMultiplier', issues, { min: 0 }),
+    },
+  };
+
+  if (issues.length === 0) {
+    const rungs = config.stakeLadder;
+    if (rungs.some((v, i) => i > 0 && v <= rungs[i - 1])) {
+      issues.push('stakeLadder: must be strictly ascending');
+    }
+    if (!rungs.includes(config.bet)) {
+      issues.push(`stakeLadder: must contain bet (${config.bet})`);
+    }
+
+    if (!Number.isInteger(config.ladder.maxWaves)) {
+      issues.push(`ladder.maxWaves: must be an integer, got ${config.ladder.maxWaves}`);
+    }
+
+    const { hitA, hitB, miss } = config.firstPlane;
+    const { hitWeightMultiplier: hm, missWeightMultiplier: mm } = config.tuning;
+    if ((hitA + hitB) * hm + miss * mm <= 0) {
+      issues.push('firstPlane: tuned weights must not all be zero');
+    }
+  }
+
+  if (issues.length > 0) {
+    const name = typeof obj.id === 'string' ? ` "${obj.id}"` : '';
+    throw new Error(`ProbabilityConfig${name} is invalid:\n  - ${issues.join('\n  - ')}`);
+  }
+  return config;
+}
+
+// ── Validation helpers ───────────────────────────────────────────────────────
+
+function asRecord(v: unknown, path: string, issues: string[]): Record<string, unknown> {
+  if (typeof v === 'object' && v !== null && !Array.isArray(v)) return v as Record<string, unknown>;
+  issues.push(`${path || 'config'}: expected an object`);
+  return {};
+}
+
+function str(v: unknown, path: string, issues: string[]): string {
+  if (typeof v === 'string' && v.trim().length > 0) return v;
+  issues.push(`${path}: expected a non-empty string`);
+  return '';
+}
+
+function num(
+  v: unknown,
+  path: string,
+  issues: string[],
+  range: { min?: number; gt?: number; max?: number },
+): number {
+  if (typeof v !== 'number' || !Number.isFinite(v)) {
+    issues.push(`${path}: expected a finite number`);
+    return 0;
+  }
+  if (range.min !== undefined && v < range.min) issues.push(`${path}: must be ≥ ${range.min}, got ${v}`);
+  if (range.gt !== undefined && v <= range.gt) issues.push(`${path}: must be > ${range.gt}, got ${v}`);
+  if (range.max !== undefined && v > range.max) issues.push(`${path}: must be ≤ ${range.max}, got ${v}`);
+  return v;
+}
+
+function numList(v: unknown, path: string, issues: string[]): number[] {
+  if (!Array.isArray(v) || v.length === 0) {
+    issues.push(`${path}: expected a non-empty array of numbers`);
+    return [];
+  }
+  return v.map((item, i) => num(item, `${path}[${i}]`, issues, { gt: 0 }));
+}
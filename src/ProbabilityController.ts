@@ -1,7 +1,17 @@
-import { Rng } from './Rng';
+import { RandomSource } from './RandomSource';
+import {
+  DEFAULT_PROBABILITY_CONFIG,
+  ProbabilityConfig,
+  effectiveCollapseChance,
+  tunedPlaneWeights,
+} from './ProbabilityConfig';
 
 export type TowerId = 'A' | 'B';
 export type PlaneOutcome = 'hitA' | 'hitB' | 'miss';
+/** Wagers on the towers' fate beyond a single tower (see BetTypes.ts). */
+export type ComboBet = 'both' | 'neither' | 'one';
+/** What the player bets on: one tower surviving, or a combination. */
+export type BetType = TowerId | ComboBet;
 
 export interface RoundResolution {
   firstPlane: PlaneOutcome;
@@ -11,130 +21,120 @@ export interface RoundResolution {
   collapsedTower?: TowerId;
   destroyed: Record<TowerId, boolean>;
   survives: Record<TowerId, boolean>;
+  /** Whether the bet the round was resolved for wins (see betWins). */
   selectedTowerWins: boolean;
 }
 
+/** The rolled events of a round; everything else in a RoundResolution follows from them. */
+export type RoundEvents = Pick<RoundResolution, 'firstPlane' | 'secondPlane' | 'collapsedTower'>;
+
+/** One wave of a ladder-mode round (1-based `wave`). */
+export type WaveResolution = RoundResolution & { wave: number };
+
+// Child-stream ids of ladder waves within a round's random source
+const WAVE_STREAM_BASE = 0x5700;
+
+/** Child-stream id of ladder wave `wave` within a round's random source. */
+export function waveStream(wave: number): number {
+  return WAVE_STREAM_BASE + wave;
+}
+
+/** Settles a bet against the towers' final state. */
+export function betWins(bet: BetType, survives: Record<TowerId, boolean>): boolean {
+  switch (bet) {
+    case 'A':
+    case 'B':       return survives[bet];
+    case 'both':    return survives.A && survives.B;
+    case 'neither': return !survives.A && !survives.B;
+    case 'one':     return survives.A !== survives.B;
+  }
+}
+
+/**
+ * Builds the full resolution of a round from its events: a plane hit or a
+ * self-collapse destroys a tower, and the bet is settled on what survives.
+ */
+export function composeResolution(bet: BetType, events: RoundEvents): RoundResolution {
+  const { firstPlane, secondPlane, collapsedTower } = events;
+  const destroyed: Record<TowerId, boolean> = { A: false, B: false };
+  for (const plane of [firstPlane, secondPlane]) {
+    if (plane === 'hitA') destroyed.A = true;
+    if (plane === 'hitB') destroyed.B = true;
+  }
+  if (collapsedTower) destroyed[collapsedTower] = true;
+
+  const survives: Record<TowerId, boolean> = { A: !destroyed.A, B: !destroyed.B };
+  return {
+    firstPlane,
+    secondPlaneTriggered: secondPlane !== undefined,
+    secondPlane,
+    collapseTriggered: collapsedTower !== undefined,
+    collapsedTower,
+    destroyed,
+    survives,
+    selectedTowerWins: betWins(bet, survives),
+  };
+}
+
 /**
  * Centralized probability model for Twin Towers Dodge.
  *
- * Math target:
- * - Bet = 10, payout on win = 20 (2x return)
- * - RTP target = 95%
- * - Required win rate = 0.95 / 2 = 47.5%
- *
- * Base design starts from:
- * - hit A 40%, hit B 40%, miss 20%
- * - double plane trigger on miss: 10%
- * - collapse event: 5%
- *
- * Effective multipliers below are tuned to keep simulated RTP near 95%.
+ * All weights, event chances, bet and payout come from a ProbabilityConfig
+ * (see ProbabilityConfig.ts); the controller only turns them into outcomes.
  */
 export class ProbabilityController {
-  static readonly BET = 10;
-  static readonly PAYOUT_ON_WIN = 20;
-  static readonly TARGET_RTP = 0.95;
-  static readonly TARGET_WIN_RATE = ProbabilityController.TARGET_RTP / 2;
-
-  // Base probabilities from the design brief.
-  private static readonly BASE_FIRST_PLANE = {
-    hitA: 0.4,
-    hitB: 0.4,
-    miss: 0.2,
-  } as const;
-
-  // Base special event probabilities from the design brief.
-  private static readonly BASE_DOUBLE_PLANE_ON_MISS = 0.10;
-  private static readonly BASE_COLLAPSE = 0.05;
+  private readonly rng: RandomSource;
+  readonly config: ProbabilityConfig;
 
-  /**
-   * Internal tuning multipliers to keep effective RTP ~95%.
-   * They intentionally remain centralized here for transparency.
-   *
-   * Effective outcome probabilities after tuning:
-   *   hitA  = 0.4 × 1.125  = 45%
-   *   hitB  = 0.4 × 1.125  = 45%
-   *   miss  = 0.2 × 0.5    = 10%   ← visible in gameplay
-   *   total = 1.00  (weights normalize exactly)
-   *
-   *   collapse = 0.05 × 2.8 = 14%
-   *
-   * Approximate RTP derivation:
-   *   P(Tower A destroyed) = P(hitA) + P(miss)×P(2nd plane)×P(hitA) + P(collapse→A)
-   *                        = 0.45 + 0.10×0.10×0.45 + 0.14×0.5
-   *                        ≈ 0.5245
-   *   P(win) ≈ 1 − 0.5245 = 0.4755  →  RTP = 0.4755 × 2 ≈ 95.1%
-   */
-  private static readonly TUNING = {
-    hitWeightMultiplier: 1.125,
-    missWeightMultiplier: 0.5,
-    collapseMultiplier: 2.8,
-  } as const;
-
-  private readonly rng: Rng;
-
-  constructor(rng: Rng) {
+  constructor(rng: RandomSource, config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG) {
     this.rng = rng;
+    this.config = config;
   }
 
-  resolveRound(selectedTower: TowerId): RoundResolution {
-    const collapseTriggered = this.rng.chance(this.getEffectiveCollapseChance());
-    const collapsedTower = collapseTriggered ? this.randomTower() : undefined;
+  resolveRound(bet: BetType): RoundResolution {
+    return this.resolveWith(this.rng, bet);
+  }
 
-    const firstPlane = this.rollPlaneOutcome();
-    const secondPlaneTriggered =
-      firstPlane === 'miss' && this.rng.chance(ProbabilityController.BASE_DOUBLE_PLANE_ON_MISS);
-    const secondPlane = secondPlaneTriggered ? this.rollPlaneOutcome() : undefined;
+  /**
+   * Ladder mode: resolves wave `wave` (1-based) for the chosen tower. Every
+   * wave draws from its own child stream of the round's source, so any wave can
+   * be re-resolved on its own, in any order, and gives the same result.
+   */
+  resolveWave(tower: TowerId, wave: number): WaveResolution {
+    if (!Number.isInteger(wave) || wave < 1) {
+      throw new Error(`ProbabilityController: wave must be a positive integer, got ${wave}`);
+    }
+    return { ...this.resolveWith(this.rng.derive(waveStream(wave)), tower), wave };
+  }
 
-    const destroyed: Record<TowerId, boolean> = { A: false, B: false };
+  private resolveWith(rng: RandomSource, bet: BetType): RoundResolution {
+    const collapseTriggered = rng.chance(this.getEffectiveCollapseChance());
+    const collapsedTower = collapseTriggered ? this.randomTower(rng) : undefined;
 
-    this.applyPlaneOutcome(destroyed, firstPlane);
-    if (secondPlane) {
-      this.applyPlaneOutcome(destroyed, secondPlane);
-    }
-    if (collapsedTower) {
-      destroyed[collapsedTower] = true;
-    }
+    const firstPlane = this.rollPlaneOutcome(rng);
+    const secondPlaneTriggered =
+      firstPlane === 'miss' && rng.chance(this.config.doublePlaneOnMiss);
+    const secondPlane = secondPlaneTriggered ? this.rollPlaneOutcome(rng) : undefined;
 
-    const survives: Record<TowerId, boolean> = {
-      A: !destroyed.A,
-      B: !destroyed.B,
-    };
-
-    return {
-      firstPlane,
-      secondPlaneTriggered,
-      secondPlane,
-      collapseTriggered,
-      collapsedTower,
-      destroyed,
-      survives,
-      selectedTowerWins: survives[selectedTower],
-    };
+    return composeResolution(bet, { firstPlane, secondPlane, collapsedTower });
   }
 
-  private rollPlaneOutcome(): PlaneOutcome {
-    const hitAWeight = ProbabilityController.BASE_FIRST_PLANE.hitA * ProbabilityController.TUNING.hitWeightMultiplier;
-    const hitBWeight = ProbabilityController.BASE_FIRST_PLANE.hitB * ProbabilityController.TUNING.hitWeightMultiplier;
-    const missWeight = ProbabilityController.BASE_FIRST_PLANE.miss * ProbabilityController.TUNING.missWeightMultiplier;
+  private rollPlaneOutcome(rng: RandomSource): PlaneOutcome {
+    const { hitA: hitAWeight, hitB: hitBWeight, miss: missWeight } = tunedPlaneWeights(this.config);
 
     const total = hitAWeight + hitBWeight + missWeight;
-    const r = this.rng.next() * total;
+    const r = rng.next() * total;
 
     if (r < hitAWeight) return 'hitA';
     if (r < hitAWeight + hitBWeight) return 'hitB';
     return 'miss';
   }
 
-  private applyPlaneOutcome(destroyed: Record<TowerId, boolean>, outcome: PlaneOutcome): void {
-    if (outcome === 'hitA') destroyed.A = true;
-    if (outcome === 'hitB') destroyed.B = true;
-  }
-
   private getEffectiveCollapseChance(): number {
-    return Math.min(1, ProbabilityController.BASE_COLLAPSE * ProbabilityController.TUNING.collapseMultiplier);
+    return effectiveCollapseChance(this.config);
   }
 
-  private randomTower(): TowerId {
-    return this.rng.chance(0.5) ? 'A' : 'B';
+  private randomTower(rng: RandomSource): TowerId {
+    return rng.chance(0.5) ? 'A' : 'B';
   }
 }
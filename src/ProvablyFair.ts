@@ -0,0 +1,214 @@
+import { Rng } from './Rng';
+import {
+  BetType,
+  ProbabilityController,
+  RoundResolution,
+  TowerId,
+  WaveResolution,
+  waveStream,
+} from './ProbabilityController';
+import { DEFAULT_PROBABILITY_CONFIG, ProbabilityConfig } from './ProbabilityConfig';
+import { HmacSha256Source, RandomSource, RandomSourceKind, isSeedDerived } from './RandomSource';
+import { hmacSha256, sha256Hex, toHex } from './Sha256';
+
+/**
+ * Everything needed to reproduce one round's outcome.
+ * `serverSeed` stays hidden until the round has been played;
+ * `serverSeedHash` is what the player sees beforehand.
+ */
+export interface FairRound {
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  /** Backend the outcome was drawn from. */
+  rng: RandomSourceKind;
+}
+
+/** Seeds that locate a round's outcome; `rng` defaults to mulberry32. */
+export type FairSeeds = Pick<FairRound, 'serverSeed' | 'clientSeed' | 'nonce'> & { rng?: RandomSourceKind };
+
+/** Public part of the next round, shown before the player commits a bet. */
+export interface FairCommitment {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  rng: RandomSourceKind;
+}
+
+export interface VerificationResult {
+  /** sha256(serverSeed) equals the hash committed before the round. */
+  hashValid: boolean;
+  /** Outcome recomputed locally from the revealed seeds. */
+  replayed: RoundResolution;
+  /** Recomputed outcome equals the one that was animated. */
+  resolutionMatches: boolean;
+}
+
+/**
+ * Commit/reveal seed manager for Twin Towers rounds.
+ *
+ * Each round uses a fresh server seed whose SHA-256 hash is published before
+ * the bet. The round's outcome stream is keyed by HMAC-SHA256(serverSeed,
+ * "clientSeed:nonce") (see roundSource), so neither side can steer the
+ * outcome alone. After the round the server seed is revealed and anyone can
+ * replay `resolveRound` with it.
+ *
+ * Rounds are stamped with the random backend they are drawn from; only
+ * seed-derived backends (isSeedDerived) can be verified.
+ */
+export class ProvablyFair {
+  private serverSeed = '';
+  private _serverSeedHash = '';
+  private _clientSeed: string;
+  private _nonce = 0;
+  readonly rng: RandomSourceKind;
+
+  /** `clientSeed` / `nonce` restore a saved session; the server seed is always fresh. */
+  constructor(clientSeed: string = randomHex(8), nonce = 0, rng: RandomSourceKind = 'mulberry32') {
+    this._clientSeed = clientSeed;
+    this._nonce = nonce;
+    this.rng = rng;
+    this.rotateServerSeed();
+  }
+
+  get serverSeedHash(): string { return this._serverSeedHash; }
+  get clientSeed(): string { return this._clientSeed; }
+  get nonce(): number { return this._nonce; }
+
+  get commitment(): FairCommitment {
+    return {
+      serverSeedHash: this._serverSeedHash,
+      clientSeed: this._clientSeed,
+      nonce: this._nonce,
+      rng: this.rng,
+    };
+  }
+
+  /** Player-chosen seed mixed into every following round. Blank input is ignored. */
+  setClientSeed(seed: string): void {
+    const trimmed = seed.trim();
+    if (trimmed.length === 0) return;
+    this._clientSeed = trimmed;
+  }
+
+  /**
+   * Locks in the committed seeds for the round about to be played,
+   * then commits a fresh server seed for the round after it.
+   */
+  nextRound(): FairRound {
+    const round: FairRound = {
+      serverSeed: this.serverSeed,
+      serverSeedHash: this._serverSeedHash,
+      clientSeed: this._clientSeed,
+      nonce: this._nonce,
+      rng: this.rng,
+    };
+    this._nonce++;
+    this.rotateServerSeed();
+    return round;
+  }
+
+  private rotateServerSeed(): void {
+    this.serverSeed = randomHex(32);
+    this._serverSeedHash = sha256Hex(this.serverSeed);
+  }
+}
+
+/**
+ * Derives a round's 32-bit seed from its seeds and nonce: the Mulberry32
+ * state for mulberry32 rounds, and the cosmetic fx seed for every round.
+ */
+export function deriveRoundSeed(serverSeed: string, clientSeed: string, nonce: number): number {
+  const mac = hmacSha256(serverSeed, `${clientSeed}:${nonce}`);
+  return new DataView(mac.buffer).getUint32(0);
+}
+
+/**
+ * Outcome source of a seed-derived round: Mulberry32 seeded by
+ * deriveRoundSeed, or the HMAC-SHA256 stream keyed by the same seeds.
+ * Throws for backends whose rounds are not derived from the seeds.
+ */
+export function roundSource(round: FairSeeds): RandomSource {
+  const kind = round.rng ?? 'mulberry32';
+  if (!isSeedDerived(kind)) {
+    throw new Error(`ProvablyFair: ${kind} rounds are not derived from their seeds`);
+  }
+  return kind === 'hmac-sha256'
+    ? new HmacSha256Source(round.serverSeed, `${round.clientSeed}:${round.nonce}`)
+    : new Rng(deriveRoundSeed(round.serverSeed, round.clientSeed, round.nonce));
+}
+
+/**
+ * Resolves a round from its seeds. Live play, verification and replay
+ * all go through here so they cannot drift apart.
+ */
+export function resolveFairRound(
+  round: FairSeeds,
+  bet: BetType,
+  config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG,
+): RoundResolution {
+  return new ProbabilityController(roundSource(round), config).resolveRound(bet);
+}
+
+/** Seed of ladder wave `wave`'s Mulberry32 stream (also its fx seed). */
+export function deriveWaveSeed(serverSeed: string, clientSeed: string, nonce: number, wave: number): number {
+  return new Rng(deriveRoundSeed(serverSeed, clientSeed, nonce)).derive(waveStream(wave)).seed;
+}
+
+/** Ladder mode: resolves one wave of a round from its seeds. */
+export function resolveFairWave(
+  round: FairSeeds,
+  tower: TowerId,
+  wave: number,
+  config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG,
+): WaveResolution {
+  return new ProbabilityController(roundSource(round), config).resolveWave(tower, wave);
+}
+
+/**
+ * Re-runs `resolveRound` from the revealed seeds and checks it against
+ * the committed hash and the resolution that was shown to the player.
+ * For a ladder round pass the `wave` that was shown (tower bets only).
+ */
+export function verifyRound(
+  round: FairRound,
+  bet: BetType,
+  shown: RoundResolution,
+  config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG,
+  wave?: number,
+): VerificationResult {
+  const replayed = wave === undefined
+    ? resolveFairRound(round, bet, config)
+    : resolveFairWave(round, ladderTower(bet), wave, config);
+
+  return {
+    hashValid: sha256Hex(round.serverSeed) === round.serverSeedHash,
+    replayed,
+    resolutionMatches: sameResolution(replayed, shown),
+  };
+}
+
+function ladderTower(bet: BetType): TowerId {
+  if (bet !== 'A' && bet !== 'B') throw new Error(`ProvablyFair: ladder waves need a tower bet, got ${bet}`);
+  return bet;
+}
+
+function sameResolution(a: RoundResolution, b: RoundResolution): boolean {
+  return a.firstPlane === b.firstPlane
+    && a.secondPlaneTriggered === b.secondPlaneTriggered
+    && a.secondPlane === b.secondPlane
+    && a.collapseTriggered === b.collapseTriggered
+    && a.collapsedTower === b.collapsedTower
+    && a.destroyed.A === b.destroyed.A
+    && a.destroyed.B === b.destroyed.B
+    && a.survives.A === b.survives.A
+    && a.survives.B === b.survives.B
+    && a.selectedTowerWins === b.selectedTowerWins;
+}
+
+function randomHex(bytes: number): string {
+  const buf = new Uint8Array(bytes);
+  crypto.getRandomValues(buf);
+  return toHex(buf);
+}
@@ -0,0 +1,35 @@
+import { FairRound, roundSource } from './ProvablyFair';
+import { CryptoSource, RandomSource, RandomSourceKind, ScriptedSource } from './RandomSource';
+
+/** Where live rounds draw their outcomes from; chosen once at boot. */
+export interface RandomBackend {
+  readonly kind: RandomSourceKind;
+  /** Outcome source for one round (ladder waves are its child streams). */
+  forRound(round: FairRound): RandomSource;
+}
+
+export interface RandomBackendOptions {
+  /** next() values played back by the scripted backend, looping. */
+  script?: readonly number[];
+}
+
+/**
+ * Seed-derived backends rebuild each round's source from its seeds, exactly
+ * as verification and replay do. Crypto hands every round fresh OS entropy;
+ * scripted plays one script across all rounds, continuing where the last
+ * round stopped.
+ */
+export function createRandomBackend(kind: RandomSourceKind, opts: RandomBackendOptions = {}): RandomBackend {
+  switch (kind) {
+    case 'mulberry32':
+    case 'hmac-sha256':
+      return { kind, forRound: (round) => roundSource(round) };
+    case 'crypto':
+      return { kind, forRound: () => new CryptoSource() };
+    case 'scripted': {
+      if (!opts.script) throw new Error('RandomBackend: the scripted backend needs a script');
+      const source = new ScriptedSource(opts.script, { loop: true });
+      return { kind, forRound: () => source };
+    }
+  }
+}
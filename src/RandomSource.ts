@@ -0,0 +1,144 @@
+import { hmacSha256 } from './Sha256';
+
+/** Backends a round's outcome can be drawn from; recorded with every round. */
+export type RandomSourceKind = 'mulberry32' | 'crypto' | 'hmac-sha256' | 'scripted';
+
+export const RANDOM_SOURCE_KINDS: readonly RandomSourceKind[] = ['mulberry32', 'crypto', 'hmac-sha256', 'scripted'];
+
+/**
+ * Whether rounds of this kind are derived from the provably-fair seeds, and
+ * so can be verified and replayed after the server seed is revealed.
+ */
+export function isSeedDerived(kind: RandomSourceKind): boolean {
+  return kind === 'mulberry32' || kind === 'hmac-sha256';
+}
+
+/** Everything the game draws randomness from. */
+export interface RandomSource {
+  readonly kind: RandomSourceKind;
+  /** Returns float in [0, 1) */
+  next(): number;
+  /** Returns integer in [min, max] inclusive */
+  int(min: number, max: number): number;
+  /** Returns true with probability p (0–1) */
+  chance(p: number): boolean;
+  /** Picks a random element from an array */
+  pick<T>(arr: T[]): T;
+  /**
+   * Independent child stream. Drawing from the child never advances this
+   * source, so e.g. ladder waves cannot shift each other.
+   */
+  derive(stream: number): RandomSource;
+}
+
+/** int / chance / pick on top of a backend's next(), identical for every backend. */
+export abstract class UniformSource implements RandomSource {
+  abstract readonly kind: RandomSourceKind;
+  abstract next(): number;
+  abstract derive(stream: number): RandomSource;
+
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  chance(p: number): boolean {
+    return this.next() < p;
+  }
+
+  pick<T>(arr: T[]): T {
+    return arr[Math.floor(this.next() * arr.length)];
+  }
+}
+
+/**
+ * Operating-system entropy via crypto.getRandomValues. Not seedable, so its
+ * rounds cannot be verified or replayed; derive() returns another
+ * independent crypto source.
+ */
+export class CryptoSource extends UniformSource {
+  readonly kind = 'crypto';
+  private readonly buffer = new Uint32Array(256);
+  private index = this.buffer.length;
+
+  next(): number {
+    if (this.index >= this.buffer.length) {
+      crypto.getRandomValues(this.buffer);
+      this.index = 0;
+    }
+    return this.buffer[this.index++] / 4294967296;
+  }
+
+  derive(_stream: number): RandomSource {
+    return new CryptoSource();
+  }
+}
+
+/**
+ * Provably-fair byte stream: block i is HMAC-SHA256(key, "message:i"), read
+ * as eight big-endian 32-bit words. Every draw is recomputable from the
+ * revealed key and message, with no intermediate 32-bit seed.
+ */
+export class HmacSha256Source extends UniformSource {
+  readonly kind = 'hmac-sha256';
+  readonly key: string;
+  readonly message: string;
+  private block: DataView | null = null;
+  private blockIndex = 0;
+  private word = 0;
+
+  constructor(key: string, message: string) {
+    super();
+    this.key = key;
+    this.message = message;
+  }
+
+  next(): number {
+    if (!this.block || this.word === 8) {
+      const mac = hmacSha256(this.key, `${this.message}:${this.blockIndex++}`);
+      this.block = new DataView(mac.buffer, mac.byteOffset, mac.byteLength);
+      this.word = 0;
+    }
+    return this.block.getUint32(4 * this.word++) / 4294967296;
+  }
+
+  /** Child stream `stream` hashes under the message "message/stream". */
+  derive(stream: number): RandomSource {
+    return new HmacSha256Source(this.key, `${this.message}/${stream}`);
+  }
+}
+
+/**
+ * Plays back a fixed sequence of next() values, for tests and QA. Child
+ * streams share the script, so it is consumed in draw order across waves.
+ */
+export class ScriptedSource extends UniformSource {
+  readonly kind = 'scripted';
+  private readonly values: readonly number[];
+  private readonly loop: boolean;
+  private index = 0;
+
+  /** With `loop`, the script restarts when exhausted; otherwise next() throws. */
+  constructor(values: readonly number[], opts: { loop?: boolean } = {}) {
+    super();
+    const bad = values.find((v) => !(v >= 0 && v < 1));
+    if (values.length === 0 || bad !== undefined) {
+      throw new Error(`ScriptedSource: values must be a non-empty list in [0, 1)${bad !== undefined ? `, got ${bad}` : ''}`);
+    }
+    this.values = [...values];
+    this.loop = opts.loop ?? false;
+  }
+
+  /** Draws made so far. */
+  get position(): number { return this.index; }
+
+  next(): number {
+    if (this.index >= this.values.length && !this.loop) {
+      throw new Error(`ScriptedSource: script exhausted after ${this.values.length} draws`);
+    }
+    return this.values[this.index++ % this.values.length];
+  }
+
+  derive(_stream: number): RandomSource {
+    return this;
+  }
+}
@@ -1,25 +1,39 @@
-import { Rng } from './Rng';
+import { RandomSource } from './RandomSource';
 import { OutcomeController } from './OutcomeController';
 import { CardData, BOMB_CARD, pickSafeCard } from './Card';
+import { CardPack, DEFAULT_CARD_PACK } from './CardPack';
 
 /**
  * Generates card sequences for rounds.
  * Each round: [safe, safe, ..., bomb] or pure safe streak (when cashing out).
+ * Safe cards come from the active pack; the bomb odds never depend on it.
  */
 export class ReelEngine {
-  private rng: Rng;
+  private rng: RandomSource;
   private outcomeController: OutcomeController;
+  private _pack: CardPack;
 
-  constructor(rng: Rng) {
+  constructor(rng: RandomSource, pack: CardPack = DEFAULT_CARD_PACK) {
     this.rng = rng;
     this.outcomeController = new OutcomeController(rng);
+    this._pack = pack;
   }
 
   get controller(): OutcomeController { return this.outcomeController; }
+  get pack(): CardPack { return this._pack; }
 
-  /** Call at round start; decides this round's run type. */
-  startRound(): void {
-    this.outcomeController.startRound();
+  /** Swaps the safe cards dealt from the next pick on; streak state is kept. */
+  setPack(pack: CardPack): void {
+    this._pack = pack;
+  }
+
+  /**
+   * Call at round start; decides this round's run type. `rng`, if given, is
+   * the round's own outcome source: every draw from here on comes from it.
+   */
+  startRound(rng?: RandomSource): void {
+    if (rng) this.rng = rng;
+    this.outcomeController.startRound(rng);
   }
 
   /**
@@ -31,12 +45,12 @@ export class ReelEngine {
     if (this.outcomeController.isBomb(swipeIndex)) {
       return BOMB_CARD;
     }
-    return pickSafeCard(this.rng.next());
+    return pickSafeCard(this.rng.next(), this._pack.cards);
   }
 
   /** Force a safe card (used for cashout animation or first card). */
   safePick(): CardData {
-    return pickSafeCard(this.rng.next());
+    return pickSafeCard(this.rng.next(), this._pack.cards);
   }
 
   onRoundLost(): void { this.outcomeController.onRoundLost(); }
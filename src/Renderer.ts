@@ -1,25 +1,27 @@
 import * as PIXI from 'pixi.js';
-import { CardData, CardKind } from './Card';
+import {
+  CardAnimation, CardData, CardEffect, CardMotionProperty, CardMotionTarget, CardMotionWave, CardRarity,
+} from './Card';
 
 // Per-card animation state — attached to each card container via __animData
 interface CardAnimData {
-  kind: CardKind;
+  animation: CardAnimation;
   emojiText: PIXI.Text;
   titleText: PIXI.Text;
-  emojiBaseX: number;
-  emojiBaseY: number;
-  // catceo
-  catStamp?: PIXI.Text;
-  // ramen
+  /** Resting x / y of the emoji and title, the origin of every motion term. */
+  rest: Record<CardMotionTarget, { x: number; y: number }>;
+  // stamp
+  stamp?: PIXI.Text;
+  // steam
   steamDots?: Array<{ g: PIXI.Graphics; baseY: number; speed: number }>;
-  // mindfulness
+  // ring
   ringGfx?: { g: PIXI.Graphics; cx: number; cy: number; baseR: number };
-  // cleaning
+  // sweep
   sweepDot?: { g: PIXI.Graphics; maxX: number; baseY: number };
-  // pizza
+  // embers
   flameDots?: Array<{ g: PIXI.Graphics; startY: number; baseOpacity: number; speed: number }>;
-  // dog
-  dogBubble?: PIXI.Text;
+  // bubble
+  bubble?: PIXI.Text;
 }
 
 /**
@@ -35,6 +37,8 @@ export class Renderer {
   private particleList: ParticleSprite[] = [];
   private _isAnimating: boolean = false;
   private animHandler: ((delta: number) => void) | null = null;
+  private destroyed = false;
+  private readonly resizeHandler = () => this.onResize();
 
   constructor(canvas: HTMLCanvasElement) {
     const dpr = window.devicePixelRatio || 1;
@@ -55,7 +59,7 @@ export class Renderer {
     this.app.stage.addChild(this.particles);
 
     this.app.ticker.add(this.onTick.bind(this));
-    window.addEventListener('resize', this.onResize.bind(this));
+    window.addEventListener('resize', this.resizeHandler);
   }
 
   get isAnimating(): boolean { return this._isAnimating; }
@@ -171,7 +175,10 @@ export class Renderer {
       container.addChild(stripText);
     }
 
-    // Attach kind-specific animation extras
+    // Rarity frame and special-effect badge
+    this.drawFraming(container, card, W, H);
+
+    // Attach the animation recipe and its overlay extras
     const animData = this.buildAnimExtras(container, card, W, H, emojiText, titleText);
     (container as any).__animData = animData;
 
@@ -179,7 +186,43 @@ export class Renderer {
   }
 
   /**
-   * Creates and attaches kind-specific extra elements used by startCardAnimation.
+   * Rare cards get a blue frame, legendary ones a gold double frame; both get
+   * a tier badge. Special cards also get a badge spelling out their effect.
+   */
+  private drawFraming(container: PIXI.Container, card: CardData, W: number, H: number): void {
+    const frame = RARITY_FRAMES[card.rarity];
+    if (frame) {
+      const g = new PIXI.Graphics();
+      g.lineStyle(frame.width, frame.color, 0.9);
+      g.drawRoundedRect(frame.width / 2 + 4, frame.width / 2 + 4, W - frame.width - 8, H - frame.width - 8, 18);
+      if (card.rarity === 'legendary') {
+        g.lineStyle(1.5, frame.color, 0.55);
+        g.drawRoundedRect(frame.width + 10, frame.width + 10, W - frame.width * 2 - 20, H - frame.width * 2 - 20, 14);
+      }
+      container.addChild(g);
+    }
+
+    const labels = [frame?.label, card.effect ? EFFECT_BADGES[card.effect] : undefined].filter(Boolean);
+    if (labels.length === 0) return;
+    const badge = new PIXI.Text(labels.join('  ·  '), new PIXI.TextStyle({
+      fontSize: Math.min(W * 0.034, 13),
+      fontWeight: '900',
+      fill: frame ? `#${frame.color.toString(16).padStart(6, '0')}` : '#ffffff',
+      letterSpacing: 1.5,
+      align: 'center',
+      dropShadow: true,
+      dropShadowColor: '#000000',
+      dropShadowDistance: 1,
+      dropShadowAlpha: 0.8,
+    }));
+    badge.anchor.set(0.5);
+    badge.x = W / 2;
+    badge.y = H * 0.16;
+    container.addChild(badge);
+  }
+
+  /**
+   * Creates and attaches the overlay elements of the card's animation recipe.
    * Elements are added to the container so they render on top of the base card.
    */
   private buildAnimExtras(
@@ -191,21 +234,24 @@ export class Renderer {
     titleText: PIXI.Text,
   ): CardAnimData {
     const data: CardAnimData = {
-      kind: card.kind,
+      animation: card.animation,
       emojiText,
       titleText,
-      emojiBaseX: W / 2,
-      emojiBaseY: H * 0.38,
+      rest: {
+        emoji: { x: emojiText.x, y: emojiText.y },
+        title: { x: titleText.x, y: titleText.y },
+      },
     };
 
-    switch (card.kind) {
+    const overlay = card.animation.overlay;
+    switch (overlay?.type) {
 
-      case 'catceo': {
-        // "APPROVED" stamp that pulses in/out
-        const stamp = new PIXI.Text('✅ APPROVED', new PIXI.TextStyle({
+      case 'stamp': {
+        // Stamp that pulses in/out
+        const stamp = new PIXI.Text(overlay.text, new PIXI.TextStyle({
           fontSize: Math.min(W * 0.075, 30),
           fontWeight: '900',
-          fill: '#4ade80',
+          fill: overlay.color,
           align: 'center',
           dropShadow: true,
           dropShadowColor: '#000',
@@ -218,11 +264,11 @@ export class Renderer {
         stamp.alpha = 0;
         stamp.rotation = -0.12;
         container.addChild(stamp);
-        data.catStamp = stamp;
+        data.stamp = stamp;
         break;
       }
 
-      case 'ramen': {
+      case 'steam': {
         // 3 steam ellipses that drift upward
         const steamDots: NonNullable<CardAnimData['steamDots']> = [];
         for (let i = 0; i < 3; i++) {
@@ -240,7 +286,7 @@ export class Renderer {
         break;
       }
 
-      case 'mindfulness': {
+      case 'ring': {
         // Breathing ring that expands/contracts
         const g = new PIXI.Graphics();
         container.addChild(g);
@@ -248,7 +294,7 @@ export class Renderer {
         break;
       }
 
-      case 'cleaning': {
+      case 'sweep': {
         // Bright sparkle dot sweeps left→right across the emoji
         const g = new PIXI.Graphics();
         g.beginFill(0xffffff, 0.9);
@@ -261,7 +307,7 @@ export class Renderer {
         break;
       }
 
-      case 'pizza': {
+      case 'embers': {
         // Gentle flame particles drifting upward from below the emoji
         const flameDots: NonNullable<CardAnimData['flameDots']> = [];
         const colors = [0xff6b2b, 0xff9f43, 0xffd32a, 0xff4757, 0xffa502];
@@ -281,9 +327,9 @@ export class Renderer {
         break;
       }
 
-      case 'dog': {
+      case 'bubble': {
         // Speech bubble that fades in, stays, then fades out
-        const bubble = new PIXI.Text('snack? 🦴', new PIXI.TextStyle({
+        const bubble = new PIXI.Text(overlay.text, new PIXI.TextStyle({
           fontSize: Math.min(W * 0.052, 20),
           fontWeight: '700',
           fill: '#ffffff',
@@ -294,7 +340,7 @@ export class Renderer {
         bubble.y = H * 0.28;
         bubble.alpha = 0;
         container.addChild(bubble);
-        data.dogBubble = bubble;
+        data.bubble = bubble;
         break;
       }
     }
@@ -328,78 +374,46 @@ export class Renderer {
   }
 
   private tickCardAnimation(data: CardAnimData, phase: number, delta: number): void {
-    const { emojiText, titleText, emojiBaseX, emojiBaseY } = data;
-
-    switch (data.kind) {
+    this.tickMotion(data, phase);
 
-      // Original cards: gentle bob
-      case 'strawberry':
-      case 'butterfly':
-      case 'taxi':
-      case 'fruit':
-        emojiText.y = emojiBaseY + Math.sin(phase * 2.2) * 7;
-        break;
-
-      // 🧠 Guru: bounce up-down + rapid micro-shake
-      case 'guru':
-        emojiText.y = emojiBaseY + Math.sin(phase * 3.5) * 9;
-        emojiText.x = emojiBaseX + Math.sin(phase * 11) * 2.5;
-        break;
-
-      // 🥤 Hydration: wobble scale + gentle tilt
-      case 'hydration': {
-        const s = 1 + Math.sin(phase * 4) * 0.055;
-        emojiText.scale.set(s);
-        emojiText.rotation = Math.sin(phase * 3) * 0.06;
-        break;
-      }
+    switch (data.animation.overlay?.type) {
 
-      // 🐈 Cat CEO: "APPROVED" stamp slams in and fades out every ~1.5s
-      case 'catceo': {
-        if (!data.catStamp) break;
+      // Stamp slams in and fades out every ~2s
+      case 'stamp': {
+        if (!data.stamp) break;
         // Period ≈ π*2 ≈ 6.28; at 0.05 rad/frame that's ~2s per full cycle
         const cycle = phase % (Math.PI * 2);
         if (cycle < Math.PI * 0.4) {
           // slam in
           const t = cycle / (Math.PI * 0.4);
-          data.catStamp.alpha = t;
-          data.catStamp.scale.set(0.6 + t * 0.55);
+          data.stamp.alpha = t;
+          data.stamp.scale.set(0.6 + t * 0.55);
         } else if (cycle < Math.PI * 1.2) {
           // hold
-          data.catStamp.alpha = 1;
-          data.catStamp.scale.set(1.15);
+          data.stamp.alpha = 1;
+          data.stamp.scale.set(1.15);
         } else {
           // fade out
           const t = (cycle - Math.PI * 1.2) / (Math.PI * 0.8);
-          data.catStamp.alpha = Math.max(0, 1 - t);
-          data.catStamp.scale.set(1.15);
+          data.stamp.alpha = Math.max(0, 1 - t);
+          data.stamp.scale.set(1.15);
         }
-        // Emoji bobs
-        emojiText.y = emojiBaseY + Math.sin(phase * 2) * 5;
         break;
       }
 
-      // 🍜 Ramen: steam drifts up + emoji bobs gently
-      case 'ramen': {
+      // Steam drifts up
+      case 'steam': {
         if (!data.steamDots) break;
         data.steamDots.forEach((s, i) => {
           s.g.y -= s.speed * delta;
           if (s.g.y < s.baseY - 65) s.g.y = s.baseY;
           s.g.alpha = 0.12 + Math.sin(phase * 2.5 + i * 1.2) * 0.09;
         });
-        emojiText.y = emojiBaseY + Math.sin(phase * 1.8) * 5;
         break;
       }
 
-      // 💸 Crypto: rocket wiggle + lean into chaos
-      case 'crypto':
-        emojiText.rotation = Math.sin(phase * 5) * 0.18;
-        emojiText.x = emojiBaseX + Math.sin(phase * 3.5) * 6;
-        emojiText.y = emojiBaseY + Math.cos(phase * 4) * 4;
-        break;
-
-      // 🧘 Mindfulness: breathing ring expands/contracts
-      case 'mindfulness': {
+      // Breathing ring expands/contracts
+      case 'ring': {
         if (!data.ringGfx) break;
         const { g, cx, cy, baseR } = data.ringGfx;
         // Slow 4-count breath: ~4s per cycle
@@ -410,13 +424,11 @@ export class Renderer {
         g.drawCircle(cx, cy, r);
         g.lineStyle(1.5, 0x00f2fe, alpha * 0.6);
         g.drawCircle(cx, cy, r * 1.35);
-        // Emoji breathes along
-        emojiText.scale.set(1 + Math.sin(phase * 0.8) * 0.04);
         break;
       }
 
-      // 🧽 Cleaning: sparkle dot sweeps left→right
-      case 'cleaning': {
+      // Sparkle dot sweeps left→right
+      case 'sweep': {
         if (!data.sweepDot) break;
         const { g, maxX, baseY } = data.sweepDot;
         // Full sweep in ~2.5s: maxX / (150) per frame at 60fps
@@ -425,13 +437,11 @@ export class Renderer {
         g.y = baseY + Math.sin(phase * 4) * 12;
         const normalX = Math.max(0, Math.min(1, g.x / maxX));
         g.alpha = Math.sin(normalX * Math.PI) * 0.85;
-        // Emoji shakes a little
-        emojiText.x = emojiBaseX + Math.sin(phase * 9) * 1.5;
         break;
       }
 
-      // 🍕 Pizza: flame dots drift upward (gentle, non-explosive)
-      case 'pizza': {
+      // Flame dots drift upward (gentle, non-explosive)
+      case 'embers': {
         if (!data.flameDots) break;
         data.flameDots.forEach((f) => {
           f.g.y -= f.speed * delta;
@@ -440,38 +450,49 @@ export class Renderer {
           f.g.alpha = f.baseOpacity * (1 - progress);
           f.g.x += Math.sin(phase * 2 + f.startY) * 0.4 * delta;
         });
-        emojiText.y = emojiBaseY + Math.sin(phase * 2.5) * 4;
         break;
       }
 
-      // 🐕 Dog: "snack?" speech bubble pops up and fades (every ~3s)
-      case 'dog': {
-        if (!data.dogBubble) break;
-        // Period ≈ 2π; ~2s at 0.05 rate — adjust for ~3s with slower rate
+      // Speech bubble pops up and fades (every ~2s)
+      case 'bubble': {
+        if (!data.bubble) break;
         const cycle = phase % (Math.PI * 2);
         if (cycle < Math.PI * 0.45) {
           const t = cycle / (Math.PI * 0.45);
-          data.dogBubble.alpha = t;
-          data.dogBubble.scale.set(0.75 + t * 0.3);
+          data.bubble.alpha = t;
+          data.bubble.scale.set(0.75 + t * 0.3);
         } else if (cycle < Math.PI * 1.4) {
-          data.dogBubble.alpha = 1;
-          data.dogBubble.scale.set(1.05);
+          data.bubble.alpha = 1;
+          data.bubble.scale.set(1.05);
         } else {
           const t = (cycle - Math.PI * 1.4) / (Math.PI * 0.6);
-          data.dogBubble.alpha = Math.max(0, 1 - t);
-          data.dogBubble.scale.set(1.05);
+          data.bubble.alpha = Math.max(0, 1 - t);
+          data.bubble.scale.set(1.05);
         }
-        emojiText.y = emojiBaseY + Math.sin(phase * 2) * 6;
         break;
       }
+    }
+  }
 
-      // 🎭 Drama: headline zoom pulse (subtle camera-zoom effect)
-      case 'drama': {
-        const pulse = 1 + Math.sin(phase * 2) * 0.025;
-        titleText.scale.set(pulse);
-        emojiText.y = emojiBaseY + Math.sin(phase * 3) * 4;
-        break;
-      }
+  /**
+   * Sums the recipe's motion terms per text and property and sets each
+   * animated property to rest + offset; properties without a term are left alone.
+   */
+  private tickMotion(data: CardAnimData, phase: number): void {
+    const offsets: Record<CardMotionTarget, Partial<Record<CardMotionProperty, number>>> = { emoji: {}, title: {} };
+    for (const term of data.animation.motion) {
+      const o = offsets[term.target ?? 'emoji'];
+      o[term.property] = (o[term.property] ?? 0) + MOTION_WAVES[term.wave ?? 'sin'](phase * term.speed) * term.amplitude;
+    }
+
+    for (const target of ['emoji', 'title'] as const) {
+      const text = target === 'title' ? data.titleText : data.emojiText;
+      const { x, y, rotation, scale } = offsets[target];
+      const rest = data.rest[target];
+      if (x !== undefined) text.x = rest.x + x;
+      if (y !== undefined) text.y = rest.y + y;
+      if (rotation !== undefined) text.rotation = rotation;
+      if (scale !== undefined) text.scale.set(1 + scale);
     }
   }
 
@@ -498,6 +519,7 @@ export class Renderer {
 
     let t = 0;
     const tick = () => {
+      if (this.destroyed) return;
       t += 0.06;
       const s = lerp(1.03, 1.0, easeOutCubic(Math.min(t, 1)));
       card.scale.set(s);
@@ -528,24 +550,27 @@ export class Renderer {
     const H = this.height;
     const newCard = this.createCardGraphic(nextCardData);
     this.nextCard = newCard;
-    newCard.y = H;
     newCard.scale.set(1.03);
     this.cardContainer.addChild(newCard);
 
     const current = this.currentCard;
+    // Picks up from wherever a drag left the current card
+    const startY = current ? current.y : 0;
+    newCard.y = startY + H;
     let t = 0;
 
     const tick = () => {
+      if (this.destroyed) return;
       // ~350ms at 60fps: t increments by ~0.017 per rAF → need ~0.042 per step for 24 steps
       t += 0.042;
       const progress = easeOutCubic(Math.min(t, 1));
 
       if (current) {
-        current.y = -H * progress;
+        current.y = startY - (H + startY) * progress;
         current.alpha = 1 - progress * 1.3;
       }
 
-      newCard.y = H * (1 - progress);
+      newCard.y = (H + startY) * (1 - progress);
       newCard.scale.set(lerp(1.03, 1.0, progress));
 
       if (t >= 1) {
@@ -564,6 +589,36 @@ export class Renderer {
     requestAnimationFrame(tick);
   }
 
+  /**
+   * Moves the current card with the finger while a swipe is in progress.
+   * `offset` is in px from rest (negative = pulled up). Ignored mid-transition.
+   */
+  dragCard(offset: number): void {
+    if (this._isAnimating || !this.currentCard) return;
+    this.currentCard.y = offset;
+  }
+
+  /** Eases a dragged card back to rest after a cancelled swipe (~150ms). */
+  snapBack(): void {
+    const card = this.currentCard;
+    if (this._isAnimating || !card || card.y === 0) return;
+    this._isAnimating = true;
+
+    const startY = card.y;
+    let t = 0;
+    const tick = () => {
+      if (this.destroyed) return;
+      t += 0.11;
+      card.y = startY * (1 - easeOutCubic(Math.min(t, 1)));
+      if (t < 1) {
+        requestAnimationFrame(tick);
+      } else {
+        this._isAnimating = false;
+      }
+    };
+    requestAnimationFrame(tick);
+  }
+
   // ─── Particle effects ─────────────────────────────────────────────────────
 
   spawnSparkles(x: number, y: number): void {
@@ -619,15 +674,36 @@ export class Renderer {
     }
   }
 
+  /** Stops pending transitions and removes the canvas along with every display object. */
   destroy(): void {
+    this.destroyed = true;
     if (this.animHandler !== null) {
       this.app.ticker.remove(this.animHandler);
+      this.animHandler = null;
     }
-    window.removeEventListener('resize', this.onResize.bind(this));
-    this.app.destroy(false);
+    window.removeEventListener('resize', this.resizeHandler);
+    this.app.destroy(true, { children: true });
   }
 }
 
+const RARITY_FRAMES: Record<CardRarity, { color: number; width: number; label: string } | null> = {
+  common: null,
+  rare: { color: 0x60a5fa, width: 4, label: '◆ RARE' },
+  legendary: { color: 0xfbbf24, width: 6, label: '★ LEGENDARY' },
+};
+
+const MOTION_WAVES: Record<CardMotionWave, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  bounce: (x) => Math.abs(Math.sin(x)),
+};
+
+const EFFECT_BADGES: Record<CardEffect, string> = {
+  boost: '🚀 DOUBLE STEP',
+  shield: '🛡️ BLOCKS NEXT BOMB',
+  tax: '🧾 POT −20%',
+};
+
 interface ParticleSprite {
   sprite: PIXI.Text;
   vy: number;
@@ -1,12 +1,16 @@
+import { UniformSource } from './RandomSource';
+
 /**
  * Seeded pseudo-random number generator (Mulberry32).
  * Deterministic per seed – useful for reproducible runs.
  */
-export class Rng {
+export class Rng extends UniformSource {
+  readonly kind = 'mulberry32';
   private state: number;
   readonly seed: number;
 
   constructor(seed?: number) {
+    super();
     this.seed = seed ?? Math.floor(Math.random() * 0xffffffff);
     this.state = this.seed;
   }
@@ -20,22 +24,25 @@ export class Rng {
     return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
   }
 
-  /** Returns integer in [min, max] inclusive */
-  int(min: number, max: number): number {
-    return Math.floor(this.next() * (max - min + 1)) + min;
-  }
-
-  /** Returns true with probability p (0–1) */
-  chance(p: number): boolean {
-    return this.next() < p;
-  }
-
-  /** Picks a random element from an array */
-  pick<T>(arr: T[]): T {
-    return arr[Math.floor(this.next() * arr.length)];
+  /**
+   * Independent generator keyed off this one's seed. Drawing from the child
+   * never advances this generator, so e.g. cosmetic jitter cannot shift outcomes.
+   */
+  derive(stream: number): Rng {
+    return new Rng(mix32(this.seed ^ Math.imul(stream, 0x9e3779b9)));
   }
 
   getSeedHex(): string {
     return (this.seed >>> 0).toString(16).padStart(8, '0').toUpperCase();
   }
 }
+
+/** murmur3 finalizer – spreads nearby seeds across the full 32-bit range. */
+function mix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
@@ -0,0 +1,510 @@
+import { Rng } from './Rng';
+import { CryptoSource, HmacSha256Source } from './RandomSource';
+
+/**
+ * Statistical quality harness for random generators.
+ *
+ * Every test runs once per seed and yields a p-value. A sound generator gives
+ * p-values that are uniform on [0, 1], so each test is judged on two things
+ * across all seeds: how many seeds fall below `alpha` (should be ≈ alpha) and
+ * a Kolmogorov–Smirnov check that the p-values themselves look uniform.
+ */
+
+/** The drawing surface of RandomSource; any backend (or ad-hoc generator) can be tested. */
+export interface RandomGenerator {
+  next(): number;
+  int(min: number, max: number): number;
+  chance(p: number): boolean;
+  pick<T>(arr: T[]): T;
+}
+
+export interface GeneratorDef {
+  id: string;
+  label: string;
+  create(seed: number): RandomGenerator;
+}
+
+export interface QualityTest {
+  id: string;
+  label: string;
+  /** Draws per seed. */
+  draws(samples: number): number;
+  /** p-value of one seed's run. */
+  run(gen: RandomGenerator, samples: number): number;
+  /** Documents a known limitation rather than gating the generator. */
+  advisory?: boolean;
+}
+
+export interface QualityOptions {
+  /** Seeds run per test; seeds are consecutive from `firstSeed` (the harshest case for Mulberry32). */
+  seeds?: number;
+  firstSeed?: number;
+  /** Base sample size per test and seed. */
+  samples?: number;
+  /** Per-seed significance level. */
+  alpha?: number;
+}
+
+export type Verdict = 'pass' | 'suspect' | 'fail';
+
+export interface TestReport {
+  id: string;
+  label: string;
+  advisory: boolean;
+  seeds: number;
+  drawsPerSeed: number;
+  /** Seeds with p < alpha. */
+  failures: number;
+  /** P(at least this many failures) for a perfect generator. */
+  failureP: number;
+  /** Uniformity of the per-seed p-values. */
+  ksP: number;
+  minP: number;
+  verdict: Verdict;
+}
+
+export interface GeneratorReport {
+  generator: { id: string; label: string };
+  options: Required<QualityOptions>;
+  tests: TestReport[];
+  /** Worst verdict of the non-advisory tests. */
+  verdict: Verdict;
+}
+
+// ── Generators ───────────────────────────────────────────────────────────────
+
+/** The game's generator. */
+export const MULBERRY32: GeneratorDef = {
+  id: 'mulberry32',
+  label: 'Rng (Mulberry32)',
+  create: (seed) => new Rng(seed),
+};
+
+/** crypto.getRandomValues (not seedable; `seed` is ignored). */
+export const CRYPTO: GeneratorDef = {
+  id: 'crypto',
+  label: 'CryptoSource',
+  create: () => new CryptoSource(),
+};
+
+/** The provably-fair HMAC-SHA256 stream, keyed by the seed. Slow: one HMAC per 8 draws. */
+export const HMAC_SHA256: GeneratorDef = {
+  id: 'hmac-sha256',
+  label: 'HmacSha256Source',
+  create: (seed) => new HmacSha256Source(`seed-${seed}`, 'rng-quality'),
+};
+
+/** Baseline: the platform generator (not seedable; `seed` is ignored). */
+export const MATH_RANDOM: GeneratorDef = {
+  id: 'math-random',
+  label: 'Math.random',
+  create: () => fromUniform(Math.random),
+};
+
+/**
+ * Known-bad control: a power-of-two LCG returning its low 16 bits, whose
+ * period is only 2^16. The suite should fail it; if it does not, the tests
+ * have lost their power.
+ */
+export const WEAK_LCG: GeneratorDef = {
+  id: 'weak-lcg',
+  label: 'Weak LCG (control)',
+  create: (seed) => {
+    let state = seed >>> 0;
+    return fromUniform(() => {
+      state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+      return (state & 0xffff) / 0x10000;
+    });
+  },
+};
+
+export const GENERATORS: Record<string, GeneratorDef> = Object.fromEntries(
+  [MULBERRY32, CRYPTO, HMAC_SHA256, MATH_RANDOM, WEAK_LCG].map((g) => [g.id, g]),
+);
+
+/**
+ * Builds a RandomGenerator from a [0, 1) source, deriving int / chance / pick
+ * exactly as Rng does, so the derived methods are tested under the same maths.
+ */
+export function fromUniform(next: () => number): RandomGenerator {
+  return {
+    next,
+    int: (min, max) => Math.floor(next() * (max - min + 1)) + min,
+    chance: (p) => next() < p,
+    pick: (arr) => arr[Math.floor(next() * arr.length)],
+  };
+}
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+/** χ² goodness of fit of next() over 100 equal bins. */
+export const UNIFORMITY: QualityTest = {
+  id: 'uniformity',
+  label: 'next() χ² uniformity, 100 bins',
+  draws: (n) => n,
+  run: (gen, n) => chiSquareUniform(bucketCounts(n, 100, () => Math.floor(gen.next() * 100))),
+};
+
+/** Lag 1–4 autocorrelation of next(); Σ z² over the lags is χ²(4). */
+export const SERIAL_CORRELATION: QualityTest = {
+  id: 'serial-correlation',
+  label: 'next() serial correlation, lags 1–4',
+  draws: (n) => n,
+  run: (gen, n) => {
+    const xs = Array.from({ length: n }, () => gen.next() - 0.5);
+    let var0 = 0;
+    for (const x of xs) var0 += x * x;
+    let stat = 0;
+    for (let lag = 1; lag <= 4; lag++) {
+      let cov = 0;
+      for (let i = lag; i < n; i++) cov += xs[i] * xs[i - lag];
+      const z = (cov / var0) * Math.sqrt(n - lag);
+      stat += z * z;
+    }
+    return chiSquareSf(stat, 4);
+  },
+};
+
+/** Wald–Wolfowitz runs above / below 0.5. */
+export const RUNS: QualityTest = {
+  id: 'runs',
+  label: 'next() runs above/below ½',
+  draws: (n) => n,
+  run: (gen, n) => {
+    let above = 0;
+    let runs = 0;
+    let prev: boolean | null = null;
+    for (let i = 0; i < n; i++) {
+      const hi = gen.next() >= 0.5;
+      if (hi) above++;
+      if (hi !== prev) runs++;
+      prev = hi;
+    }
+    const below = n - above;
+    const mean = (2 * above * below) / n + 1;
+    const variance = (2 * above * below * (2 * above * below - n)) / (n * n * (n - 1));
+    return twoSided((runs - mean) / Math.sqrt(variance));
+  },
+};
+
+/** χ² of int(min, max) over every value of each range; ranges combine by summing χ². */
+export const INT_BUCKETS: QualityTest = {
+  id: 'int-buckets',
+  label: 'int() buckets: [0,1] [1,6] [0,9] [1,37] [-5,5] [0,99]',
+  draws: (n) => n * INT_RANGES.length,
+  run: (gen, n) => {
+    let stat = 0;
+    let df = 0;
+    for (const [min, max] of INT_RANGES) {
+      const counts = bucketCounts(n, max - min + 1, () => gen.int(min, max) - min);
+      stat += chiSquareStat(counts);
+      df += counts.length - 1;
+    }
+    return chiSquareSf(stat, df);
+  },
+};
+
+/**
+ * Frequency of exactly `min` and exactly `max` from int(), each against 1/size
+ * (χ² over min / max / other, as the two counts are not independent), plus a
+ * hard failure for any value outside [min, max].
+ */
+export const INT_EDGES: QualityTest = {
+  id: 'int-edges',
+  label: 'int() edge bias (P(min), P(max), range bounds)',
+  draws: (n) => n * INT_RANGES.length,
+  run: (gen, n) => {
+    let stat = 0;
+    let df = 0;
+    for (const [min, max] of INT_RANGES) {
+      let lo = 0;
+      let hi = 0;
+      for (let i = 0; i < n; i++) {
+        const v = gen.int(min, max);
+        if (v < min || v > max || !Number.isInteger(v)) return 0;
+        if (v === min) lo++;
+        if (v === max) hi++;
+      }
+      // Cells min / max / everything else; a two-value range has no third cell
+      const p = 1 / (max - min + 1);
+      const cells: [number, number][] = [[lo, p], [hi, p]];
+      if (max - min > 1) cells.push([n - lo - hi, 1 - 2 * p]);
+      for (const [count, q] of cells) stat += (count - n * q) ** 2 / (n * q);
+      df += cells.length - 1;
+    }
+    return chiSquareSf(stat, df);
+  },
+};
+
+/**
+ * Residue mod 3 of int(0, 3·2^30 − 1). Scaling a 32-bit float by a range that
+ * is not a power of two maps two source values onto some outputs and one onto
+ * others; for this range every multiple of 3 gets two, so P(v mod 3 = 0) is
+ * 1/2 instead of 1/3. The bias is ≈ size / 2^32 and negligible for the small
+ * ranges the game uses.
+ */
+export const INT_LARGE_RANGE: QualityTest = {
+  id: 'int-large-range',
+  label: 'int() residues mod 3 over a 3·2^30 range',
+  draws: (n) => n,
+  advisory: true,
+  run: (gen, n) => chiSquareUniform(bucketCounts(n, 3, () => gen.int(0, 3 * 2 ** 30 - 1) % 3)),
+};
+
+/** Hit rate of chance(p) against p for small, even and large p. */
+export const CHANCE: QualityTest = {
+  id: 'chance',
+  label: 'chance(p) for p = 0.01, 0.1, 0.5, 0.9',
+  draws: (n) => n * CHANCE_PS.length,
+  run: (gen, n) => {
+    let stat = 0;
+    for (const p of CHANCE_PS) {
+      let hits = 0;
+      for (let i = 0; i < n; i++) if (gen.chance(p)) hits++;
+      stat += binomialZ(hits, n, p) ** 2;
+    }
+    return chiSquareSf(stat, CHANCE_PS.length);
+  },
+};
+
+/** χ² of pick() over arrays of 2, 3 and 7 elements. */
+export const PICK: QualityTest = {
+  id: 'pick',
+  label: 'pick() over 2, 3 and 7 elements',
+  draws: (n) => n * PICK_SIZES.length,
+  run: (gen, n) => {
+    let stat = 0;
+    let df = 0;
+    for (const size of PICK_SIZES) {
+      const items = Array.from({ length: size }, (_, i) => i);
+      const counts = bucketCounts(n, size, () => gen.pick(items));
+      stat += chiSquareStat(counts);
+      df += size - 1;
+    }
+    return chiSquareSf(stat, df);
+  },
+};
+
+export const QUALITY_TESTS: QualityTest[] = [
+  UNIFORMITY,
+  SERIAL_CORRELATION,
+  RUNS,
+  INT_BUCKETS,
+  INT_EDGES,
+  CHANCE,
+  PICK,
+  INT_LARGE_RANGE,
+];
+
+// ── Runner ───────────────────────────────────────────────────────────────────
+
+/** Runs `tests` on one generator over many seeds. */
+export function assessGenerator(
+  generator: GeneratorDef,
+  opts: QualityOptions = {},
+  tests: QualityTest[] = QUALITY_TESTS,
+): GeneratorReport {
+  const options: Required<QualityOptions> = {
+    seeds: opts.seeds ?? 32,
+    firstSeed: opts.firstSeed ?? 1,
+    samples: opts.samples ?? 100_000,
+    alpha: opts.alpha ?? 0.01,
+  };
+
+  const reports = tests.map((test): TestReport => {
+    const ps: number[] = [];
+    for (let i = 0; i < options.seeds; i++) {
+      ps.push(test.run(generator.create((options.firstSeed + i) >>> 0), options.samples));
+    }
+    const failures = ps.filter((p) => p < options.alpha).length;
+    const failureP = binomialTail(failures, ps.length, options.alpha);
+    const ksP = ksUniformP(ps);
+    const worst = Math.min(failureP, ksP);
+    return {
+      id: test.id,
+      label: test.label,
+      advisory: test.advisory ?? false,
+      seeds: ps.length,
+      drawsPerSeed: test.draws(options.samples),
+      failures,
+      failureP,
+      ksP,
+      minP: ps.reduce((a, b) => Math.min(a, b), 1),
+      verdict: worst < 0.001 ? 'fail' : worst < 0.01 ? 'suspect' : 'pass',
+    };
+  });
+
+  const gating = reports.filter((r) => !r.advisory).map((r) => r.verdict);
+  return {
+    generator: { id: generator.id, label: generator.label },
+    options,
+    tests: reports,
+    verdict: gating.includes('fail') ? 'fail' : gating.includes('suspect') ? 'suspect' : 'pass',
+  };
+}
+
+/** Markdown report: a verdict table per generator, then the findings worth reading. */
+export function qualityMarkdown(reports: GeneratorReport[]): string {
+  const lines = ['# RNG quality report', ''];
+  for (const r of reports) {
+    const o = r.options;
+    lines.push(
+      `## ${r.generator.label} (\`${r.generator.id}\`) — ${r.verdict.toUpperCase()}`,
+      '',
+      `${o.seeds} seeds from ${o.firstSeed}, α = ${o.alpha}.`,
+      '',
+      '| Test | Draws / seed | Seeds p < α | P(failures) | KS p | min p | Verdict |',
+      '|---|---:|---:|---:|---:|---:|---|',
+      ...r.tests.map((t) => `| ${t.label}${t.advisory ? ' *(advisory)*' : ''} | ${t.drawsPerSeed} `
+        + `| ${t.failures} / ${t.seeds} | ${fmtP(t.failureP)} | ${fmtP(t.ksP)} | ${fmtP(t.minP)} | ${VERDICT_ICONS[t.verdict]} ${t.verdict} |`),
+      '',
+    );
+    const findings = r.tests.filter((t) => t.verdict !== 'pass');
+    lines.push(...(findings.length === 0
+      ? ['No findings.']
+      : findings.map((t) => `- **${t.label}**: ${t.verdict}${t.advisory ? ' (advisory, not gating)' : ''} – `
+        + `${t.failures} of ${t.seeds} seeds below α, p-value KS ${fmtP(t.ksP)}.`)));
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+// ── Statistics ───────────────────────────────────────────────────────────────
+
+/** Upper tail P(X ≥ x) of a χ² distribution with `df` degrees of freedom. */
+export function chiSquareSf(x: number, df: number): number {
+  return x <= 0 ? 1 : gammaQ(df / 2, x / 2);
+}
+
+/** Standard normal CDF. */
+export function normalCdf(z: number): number {
+  return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+/**
+ * Asymptotic KS p-value that `ps` come from U(0, 1)
+ * (Stephens' small-sample correction on the Kolmogorov distribution).
+ */
+export function ksUniformP(ps: number[]): number {
+  const sorted = [...ps].sort((a, b) => a - b);
+  const n = sorted.length;
+  if (n === 0) return 1;
+  let d = 0;
+  sorted.forEach((p, i) => {
+    d = Math.max(d, (i + 1) / n - p, p - i / n);
+  });
+  const lambda = (Math.sqrt(n) + 0.12 + 0.11 / Math.sqrt(n)) * d;
+  let sum = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-12) break;
+  }
+  return Math.min(1, Math.max(0, sum));
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+const INT_RANGES: readonly [number, number][] = [[0, 1], [1, 6], [0, 9], [1, 37], [-5, 5], [0, 99]];
+const CHANCE_PS = [0.01, 0.1, 0.5, 0.9];
+const PICK_SIZES = [2, 3, 7];
+const VERDICT_ICONS: Record<Verdict, string> = { pass: '✅', suspect: '⚠️', fail: '❌' };
+
+function bucketCounts(n: number, bins: number, draw: () => number): number[] {
+  const counts = new Array<number>(bins).fill(0);
+  for (let i = 0; i < n; i++) counts[draw()]++;
+  return counts;
+}
+
+function chiSquareStat(counts: number[]): number {
+  const expected = counts.reduce((a, b) => a + b, 0) / counts.length;
+  return counts.reduce((s, c) => s + (c - expected) ** 2 / expected, 0);
+}
+
+function chiSquareUniform(counts: number[]): number {
+  return chiSquareSf(chiSquareStat(counts), counts.length - 1);
+}
+
+function binomialZ(hits: number, n: number, p: number): number {
+  return (hits - n * p) / Math.sqrt(n * p * (1 - p));
+}
+
+function twoSided(z: number): number {
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/** P(X ≥ k) for X ~ Binomial(n, p). */
+function binomialTail(k: number, n: number, p: number): number {
+  let tail = 0;
+  for (let i = k; i <= n; i++) {
+    tail += Math.exp(logChoose(n, i) + i * Math.log(p) + (n - i) * Math.log(1 - p));
+  }
+  return Math.min(1, tail);
+}
+
+function logChoose(n: number, k: number): number {
+  return logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+}
+
+/** Lanczos approximation (g = 7, n = 9). */
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  x -= 1;
+  let a = c[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/** Regularized upper incomplete gamma Q(a, x): series below a + 1, continued fraction above. */
+function gammaQ(a: number, x: number): number {
+  const lnPrefix = -x + a * Math.log(x) - logGamma(a);
+  if (x < a + 1) {
+    let sum = 1 / a;
+    let term = sum;
+    for (let n = 1; n < 1000; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(lnPrefix));
+  }
+  // Modified Lentz
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 1000; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.exp(lnPrefix) * h;
+}
+
+/** Complementary error function (Numerical Recipes erfcc, |error| < 1.2e-7). */
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418
+    + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851973
+    + t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+}
+
+function fmtP(p: number): string {
+  return p < 0.0001 ? p.toExponential(1) : p.toFixed(4);
+}
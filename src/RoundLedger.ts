@@ -0,0 +1,110 @@
+import { BetType, RoundResolution } from './ProbabilityController';
+import { FairRound } from './ProvablyFair';
+import { SideBetSettlement } from './SideBets';
+
+/** One settled round. Entries are frozen once appended. */
+export interface LedgerEntry {
+  /** Sequential round id (the wallet's rounds-played count at the time). */
+  id: number;
+  /** Settlement time, ms since epoch. */
+  timestamp: number;
+  bet: BetType;
+  stake: number;
+  resolution: RoundResolution;
+  /** Total returned by the main bet (0 on a loss). */
+  payout: number;
+  /** Side bets placed this round, settled. */
+  sideBets: SideBetSettlement[];
+  /** Ladder rounds only: waves played; `resolution` is the last of them. */
+  waves?: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  /** Revealed seeds – enough to verify or replay the round. */
+  round: FairRound;
+}
+
+/** Column order of the CSV export. */
+const CSV_COLUMNS = [
+  'id', 'timestamp', 'bet', 'stake', 'payout', 'sideStake', 'sidePayout', 'sideBets',
+  'waves', 'balanceBefore', 'balanceAfter',
+  'win', 'firstPlane', 'secondPlane', 'collapsedTower',
+  'serverSeed', 'serverSeedHash', 'clientSeed', 'nonce', 'rng',
+] as const;
+
+/**
+ * Append-only, in-memory history of settled rounds (oldest first).
+ * Nothing is ever edited or removed; `clear()` only exists for a wallet reset.
+ */
+export class RoundLedger {
+  private readonly items: LedgerEntry[] = [];
+
+  get entries(): readonly LedgerEntry[] { return this.items; }
+  get size(): number { return this.items.length; }
+
+  append(entry: LedgerEntry): LedgerEntry {
+    const last = this.items[this.items.length - 1];
+    if (last && entry.id <= last.id) {
+      throw new Error(`RoundLedger: round id ${entry.id} must follow ${last.id}`);
+    }
+    const frozen = deepFreeze(structuredClone(entry));
+    this.items.push(frozen);
+    return frozen;
+  }
+
+  find(id: number): LedgerEntry | undefined {
+    return this.items.find((e) => e.id === id);
+  }
+
+  clear(): void {
+    this.items.length = 0;
+  }
+
+  toJson(): string {
+    return JSON.stringify(this.items, null, 2);
+  }
+
+  /** One row per round; timestamps in ISO-8601 UTC. */
+  toCsv(): string {
+    const rows = this.items.map((e) => {
+      const r = e.resolution;
+      const record: Record<(typeof CSV_COLUMNS)[number], string | number> = {
+        id: e.id,
+        timestamp: new Date(e.timestamp).toISOString(),
+        bet: e.bet,
+        stake: e.stake,
+        payout: e.payout,
+        sideStake: e.sideBets.reduce((sum, b) => sum + b.stake, 0),
+        sidePayout: e.sideBets.reduce((sum, b) => sum + b.payout, 0),
+        sideBets: e.sideBets.map((b) => `${b.id}:${b.won ? 'won' : 'lost'}`).join(' '),
+        waves: e.waves ?? '',
+        balanceBefore: e.balanceBefore,
+        balanceAfter: e.balanceAfter,
+        win: r.selectedTowerWins ? 1 : 0,
+        firstPlane: r.firstPlane,
+        secondPlane: r.secondPlane ?? '',
+        collapsedTower: r.collapsedTower ?? '',
+        serverSeed: e.round.serverSeed,
+        serverSeedHash: e.round.serverSeedHash,
+        clientSeed: e.round.clientSeed,
+        nonce: e.round.nonce,
+        rng: e.round.rng,
+      };
+      return CSV_COLUMNS.map((c) => csvCell(record[c])).join(',');
+    });
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+function csvCell(v: string | number): string {
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function deepFreeze<T>(obj: T): T {
+  for (const v of Object.values(obj as object)) {
+    if (typeof v === 'object' && v !== null) deepFreeze(v);
+  }
+  return Object.freeze(obj);
+}
@@ -0,0 +1,62 @@
+import { BetType, RoundResolution } from './ProbabilityController';
+import { DEFAULT_PROBABILITY_CONFIG, ProbabilityConfig } from './ProbabilityConfig';
+import { deriveRoundSeed, deriveWaveSeed, resolveFairRound, resolveFairWave } from './ProvablyFair';
+import { RandomSourceKind } from './RandomSource';
+
+/** Revealed seeds a round was played with (see ProvablyFair). */
+export interface ReplaySeeds {
+  serverSeed: string;
+  clientSeed: string;
+  /** Backend the round was drawn from; mulberry32 when absent. */
+  rng?: RandomSourceKind;
+}
+
+export interface ReplayedRound {
+  /** Round index – the provably-fair nonce. */
+  round: number;
+  /** Ladder wave replayed, if any. */
+  wave?: number;
+  /** 32-bit seed of this round (or wave): Mulberry32 state and fx seed. */
+  rngSeed: number;
+  resolution: RoundResolution;
+}
+
+/**
+ * Headless round replay: rebuilds the outcome source and ProbabilityController
+ * for one round and returns the exact RoundResolution that was played.
+ *
+ * Each round owns a fresh outcome source derived from its seeds and nonce, and
+ * Game draws its cosmetic jitter (flight height, clouds, debris, particles)
+ * from a separate stream. No earlier rounds or cosmetic draws need to be
+ * fast-forwarded: the round index alone locates the outcome. Ladder waves
+ * are child streams of the round source, so `wave` alone locates a wave.
+ */
+export function replayRound(
+  seeds: ReplaySeeds,
+  round: number,
+  bet: BetType,
+  config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG,
+  wave?: number,
+): ReplayedRound {
+  if (!Number.isInteger(round) || round < 0) {
+    throw new Error(`Replay: round must be a non-negative integer, got ${round}`);
+  }
+
+  if (wave !== undefined) {
+    if (bet !== 'A' && bet !== 'B') {
+      throw new Error(`Replay: ladder waves need a tower bet, got ${bet}`);
+    }
+    return {
+      round,
+      wave,
+      rngSeed: deriveWaveSeed(seeds.serverSeed, seeds.clientSeed, round, wave),
+      resolution: resolveFairWave({ ...seeds, nonce: round }, bet, wave, config),
+    };
+  }
+
+  return {
+    round,
+    rngSeed: deriveRoundSeed(seeds.serverSeed, seeds.clientSeed, round),
+    resolution: resolveFairRound({ ...seeds, nonce: round }, bet, config),
+  };
+}
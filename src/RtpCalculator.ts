@@ -0,0 +1,149 @@
+import { PlaneOutcome, RoundResolution, TowerId } from './ProbabilityController';
+import {
+  ProbabilityConfig,
+  effectiveCollapseChance,
+  payoutMultiplier,
+  tunedPlaneWeights,
+} from './ProbabilityConfig';
+
+/** One leaf of the round outcome tree with its exact probability. */
+export type OutcomeBranch = Omit<RoundResolution, 'selectedTowerWins'> & { probability: number };
+
+export interface ExactRtpResults {
+  /** P(win) for a coin-flip tower pick – the same policy simulate() uses. */
+  winProbability: number;
+  winProbabilityByTower: Record<TowerId, number>;
+  rtp: number;
+  /** Single-roll plane outcome probabilities (after weight normalization). */
+  planeOutcome: Record<PlaneOutcome, number>;
+  /**
+   * Expected plane outcomes per round, second plane included –
+   * directly comparable with SimulationResults.hitA / hitB / miss.
+   */
+  hitA: number;
+  hitB: number;
+  miss: number;
+  doublePlane: number;
+  collapse: number;
+  collapseByTower: Record<TowerId, number>;
+}
+
+/**
+ * Closed-form evaluation of the Twin Towers model.
+ *
+ * Walks the full outcome tree – collapse (none / A / B) × first plane ×
+ * second plane (only after a miss) – so the numbers are exact for any config,
+ * unlike the Monte-Carlo estimate from simulate().
+ */
+export function computeExactRtp(config: ProbabilityConfig): ExactRtpResults {
+  const branches = enumerateOutcomes(config);
+  const plane = planeOutcomeProbabilities(config);
+
+  const winProbabilityByTower: Record<TowerId, number> = { A: 0, B: 0 };
+  const collapseByTower: Record<TowerId, number> = { A: 0, B: 0 };
+  const count: Record<PlaneOutcome, number> = { hitA: 0, hitB: 0, miss: 0 };
+  let doublePlane = 0;
+
+  for (const b of branches) {
+    if (b.survives.A) winProbabilityByTower.A += b.probability;
+    if (b.survives.B) winProbabilityByTower.B += b.probability;
+    if (b.collapsedTower) collapseByTower[b.collapsedTower] += b.probability;
+    if (b.secondPlaneTriggered) doublePlane += b.probability;
+
+    count[b.firstPlane] += b.probability;
+    if (b.secondPlane) count[b.secondPlane] += b.probability;
+  }
+
+  const winProbability = (winProbabilityByTower.A + winProbabilityByTower.B) / 2;
+
+  return {
+    winProbability,
+    winProbabilityByTower,
+    rtp: winProbability * payoutMultiplier(config),
+    planeOutcome: plane,
+    hitA: count.hitA,
+    hitB: count.hitB,
+    miss: count.miss,
+    doublePlane,
+    collapse: collapseByTower.A + collapseByTower.B,
+    collapseByTower,
+  };
+}
+
+/**
+ * Every distinct round outcome with its probability. Probabilities sum to 1;
+ * zero-probability branches are omitted.
+ */
+export function enumerateOutcomes(config: ProbabilityConfig): OutcomeBranch[] {
+  const plane = planeOutcomeProbabilities(config);
+  const collapseChance = effectiveCollapseChance(config);
+  const planes: PlaneOutcome[] = ['hitA', 'hitB', 'miss'];
+
+  const collapses: Array<[TowerId | undefined, number]> = [
+    [undefined, 1 - collapseChance],
+    ['A', collapseChance / 2],
+    ['B', collapseChance / 2],
+  ];
+
+  const out: OutcomeBranch[] = [];
+  for (const [collapsedTower, pCollapse] of collapses) {
+    for (const firstPlane of planes) {
+      const pFirst = pCollapse * plane[firstPlane];
+      if (firstPlane !== 'miss') {
+        push(collapsedTower, firstPlane, undefined, pFirst);
+        continue;
+      }
+      push(collapsedTower, firstPlane, undefined, pFirst * (1 - config.doublePlaneOnMiss));
+      for (const secondPlane of planes) {
+        push(collapsedTower, firstPlane, secondPlane, pFirst * config.doublePlaneOnMiss * plane[secondPlane]);
+      }
+    }
+  }
+  return out;
+
+  function push(
+    collapsedTower: TowerId | undefined,
+    firstPlane: PlaneOutcome,
+    secondPlane: PlaneOutcome | undefined,
+    probability: number,
+  ): void {
+    if (probability <= 0) return;
+    const destroyed: Record<TowerId, boolean> = {
+      A: collapsedTower === 'A' || firstPlane === 'hitA' || secondPlane === 'hitA',
+      B: collapsedTower === 'B' || firstPlane === 'hitB' || secondPlane === 'hitB',
+    };
+    out.push({
+      firstPlane,
+      secondPlaneTriggered: secondPlane !== undefined,
+      secondPlane,
+      collapseTriggered: collapsedTower !== undefined,
+      collapsedTower,
+      destroyed,
+      survives: { A: !destroyed.A, B: !destroyed.B },
+      probability,
+    });
+  }
+}
+
+/** Normalized probability of a single plane roll, mirroring ProbabilityController. */
+export function planeOutcomeProbabilities(config: ProbabilityConfig): Record<PlaneOutcome, number> {
+  const { hitA, hitB, miss } = tunedPlaneWeights(config);
+  const total = hitA + hitB + miss;
+  return { hitA: hitA / total, hitB: hitB / total, miss: miss / total };
+}
+
+/**
+ * Normal-approximation confidence interval for a simulated RTP:
+ * the win count is binomial, so RTP = multiple × p̂ ± z·multiple·√(p̂(1−p̂)/n).
+ */
+export function rtpConfidenceInterval(
+  winRate: number,
+  rounds: number,
+  config: ProbabilityConfig,
+  z = 1.96,
+): { low: number; high: number; halfWidth: number } {
+  const multiple = payoutMultiplier(config);
+  const halfWidth = z * multiple * Math.sqrt((winRate * (1 - winRate)) / rounds);
+  const rtp = winRate * multiple;
+  return { low: rtp - halfWidth, high: rtp + halfWidth, halfWidth };
+}
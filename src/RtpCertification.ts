@@ -0,0 +1,130 @@
+import { ProbabilityConfig } from './ProbabilityConfig';
+import { computeExactRtp, rtpConfidenceInterval } from './RtpCalculator';
+import { DEFAULT_SIMULATION_SEED, SimulationResults, simulate } from './Simulation';
+
+export interface CertificationOptions {
+  rounds: number;
+  seed?: number;
+  /** Largest allowed |measured RTP − config.targetRtp|, e.g. 0.01 for ±1 pp. */
+  tolerance: number;
+}
+
+export interface ConfidenceInterval {
+  /** Two-sided confidence level, e.g. 0.95. */
+  level: number;
+  low: number;
+  high: number;
+}
+
+/** Outcome of certifying one config. Plain data, safe to JSON.stringify. */
+export interface CertificationReport {
+  config: { id: string; label: string };
+  rounds: number;
+  seed: number;
+  targetRtp: number;
+  tolerance: number;
+  measuredRtp: number;
+  /** measuredRtp − targetRtp. */
+  deviation: number;
+  intervals: ConfidenceInterval[];
+  /** Closed-form RTP of the config, for reference (not part of the verdict). */
+  exactRtp: number;
+  passed: boolean;
+  results: SimulationResults;
+}
+
+/** z-scores of the reported confidence levels. */
+const CONFIDENCE_LEVELS: readonly { level: number; z: number }[] = [
+  { level: 0.95, z: 1.96 },
+  { level: 0.99, z: 2.576 },
+];
+
+/**
+ * Simulates `rounds` rounds of a config from a fixed seed and checks the
+ * measured RTP against the config's target. The same config, rounds and seed
+ * always produce the same report, so a release gate can be re-run exactly.
+ */
+export function certifyRtp(config: ProbabilityConfig, opts: CertificationOptions): CertificationReport {
+  if (!Number.isInteger(opts.rounds) || opts.rounds <= 0) {
+    throw new Error(`Certification: rounds must be a positive integer, got ${opts.rounds}`);
+  }
+  if (!(opts.tolerance >= 0)) {
+    throw new Error(`Certification: tolerance must be ≥ 0, got ${opts.tolerance}`);
+  }
+  const seed = opts.seed ?? DEFAULT_SIMULATION_SEED;
+  const results = simulate(opts.rounds, config, seed);
+  const deviation = results.effectiveRtp - config.targetRtp;
+
+  return {
+    config: { id: config.id, label: config.label },
+    rounds: opts.rounds,
+    seed,
+    targetRtp: config.targetRtp,
+    tolerance: opts.tolerance,
+    measuredRtp: results.effectiveRtp,
+    deviation,
+    intervals: CONFIDENCE_LEVELS.map(({ level, z }) => {
+      const ci = rtpConfidenceInterval(results.winRate, results.rounds, config, z);
+      return { level, low: ci.low, high: ci.high };
+    }),
+    exactRtp: computeExactRtp(config).rtp,
+    passed: Math.abs(deviation) <= opts.tolerance,
+    results,
+  };
+}
+
+export function certificationJson(reports: CertificationReport[]): string {
+  return JSON.stringify({ passed: reports.every((r) => r.passed), reports }, null, 2);
+}
+
+/** Human-readable summary: one table row per config, then details per config. */
+export function certificationMarkdown(reports: CertificationReport[]): string {
+  const lines = [
+    '# RTP certification',
+    '',
+    `**Verdict: ${reports.every((r) => r.passed) ? 'PASS' : 'FAIL'}**`,
+    '',
+    '| Config | Rounds | Seed | Target | Measured | Δ | Tolerance | 95% CI | Exact | Result |',
+    '|---|---:|---:|---:|---:|---:|---:|---|---:|---|',
+    ...reports.map((r) => {
+      const ci = r.intervals[0];
+      return `| ${r.config.label} (\`${r.config.id}\`) | ${r.rounds} | ${hex(r.seed)} | ${pct(r.targetRtp)} `
+        + `| ${pct(r.measuredRtp)} | ${signedPp(r.deviation)} | ±${pp(r.tolerance)} `
+        + `| ${pct(ci.low)} – ${pct(ci.high)} | ${pct(r.exactRtp)} | ${r.passed ? '✅ pass' : '❌ fail'} |`;
+    }),
+  ];
+
+  for (const r of reports) {
+    const res = r.results;
+    lines.push(
+      '',
+      `## ${r.config.label} (\`${r.config.id}\`)`,
+      '',
+      ...r.intervals.map((ci) => `- RTP ${pct(ci.level, 0)} CI: ${pct(ci.low)} – ${pct(ci.high)}`),
+      `- Win rate: ${pct(res.winRate)}`,
+      `- Avg net / round at reference stake: ${res.netPerRound.toFixed(4)}`,
+      `- Plane hits A / B / miss per round: ${pct(res.hitA)} / ${pct(res.hitB)} / ${pct(res.miss)}`,
+      `- Double-plane / self-collapse events: ${pct(res.doublePlane)} / ${pct(res.collapse)}`,
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+function pct(x: number, digits = 3): string {
+  return `${(x * 100).toFixed(digits)}%`;
+}
+
+/** Percentage points. */
+function pp(x: number): string {
+  return `${(x * 100).toFixed(3)} pp`;
+}
+
+function signedPp(x: number): string {
+  return `${x >= 0 ? '+' : ''}${pp(x)}`;
+}
+
+function hex(n: number): string {
+  return `0x${n.toString(16)}`;
+}
@@ -0,0 +1,273 @@
+import { Rng } from './Rng';
+import { ProbabilityController, TowerId } from './ProbabilityController';
+import { DEFAULT_PROBABILITY_CONFIG, ProbabilityConfig, payoutMultiplier } from './ProbabilityConfig';
+import { StakeLadder } from './StakeLadder';
+
+/** What a strategy sees before each round of a session. */
+export interface SessionState {
+  /** Rounds already played. */
+  round: number;
+  balance: number;
+  startBalance: number;
+  lastTower: TowerId | null;
+  lastStake: number;
+  /** null before the first round. */
+  lastWin: boolean | null;
+}
+
+/**
+ * A player strategy. Strategies may keep their own state, so each session
+ * gets a fresh instance from the factory passed to simulateSessions.
+ */
+export interface PlayerStrategy {
+  pickTower(s: SessionState): TowerId;
+  /** Stake for the next round; 0 ends the session (stop-loss / stop-win). */
+  nextStake(s: SessionState): number;
+}
+
+export interface StrategyDef {
+  id: string;
+  label: string;
+  create(config: ProbabilityConfig): PlayerStrategy;
+}
+
+export interface SessionOptions {
+  sessions?: number;
+  startingBalance?: number;
+  /** A session that never busts or stops ends after this many rounds. */
+  maxRounds?: number;
+  /** Bankroll curves kept for plotting. */
+  sampleCurves?: number;
+  histogramBins?: number;
+  seed?: number;
+}
+
+export interface Histogram {
+  /** Bin edges, `counts.length + 1` entries. */
+  edges: number[];
+  counts: number[];
+}
+
+export interface SessionSimulationResults {
+  strategy: string;
+  label: string;
+  sessions: number;
+  startingBalance: number;
+  /**
+   * Share of sessions that ended unable to cover the stake the strategy
+   * asked for (or the smallest stake on the ladder).
+   */
+  bustProbability: number;
+  medianLength: number;
+  meanFinalBalance: number;
+  finalBalance: { p5: number; p25: number; p50: number; p75: number; p95: number };
+  /** Largest peak-to-trough balance drop within a session. */
+  maxDrawdown: { median: number; worst: number };
+  /** Balance after each round (index 0 = start) for the first few sessions. */
+  samples: number[][];
+  histogram: Histogram;
+}
+
+// ── Built-in strategies ──────────────────────────────────────────────────────
+
+/** Flat stake at the config's reference bet, always on tower A. */
+export const ALWAYS_A: StrategyDef = {
+  id: 'always-a',
+  label: 'Always A',
+  create: (config) => ({
+    pickTower: () => 'A',
+    nextStake: () => config.bet,
+  }),
+};
+
+/** Flat stake, switching tower every round. */
+export const ALTERNATE: StrategyDef = {
+  id: 'alternate',
+  label: 'Alternate A/B',
+  create: (config) => ({
+    pickTower: (s) => (s.lastTower === 'A' ? 'B' : 'A'),
+    nextStake: () => config.bet,
+  }),
+};
+
+/**
+ * Martingale as the stake selector allows it: after a loss, step up to the
+ * first ladder rung at or above twice the stake; after a win, back to the
+ * reference bet. Not a true doubling where the ladder has no 2× rung (on the
+ * standard ladder 10 → 20 → 50 → 100), and it stops at the top rung.
+ */
+export const MARTINGALE: StrategyDef = {
+  id: 'martingale',
+  label: 'Martingale (ladder rungs)',
+  create: (config) => {
+    const stakes = new StakeLadder(config.stakeLadder, config.bet);
+    return {
+      pickTower: () => 'A',
+      nextStake: (s) => {
+        if (s.lastWin === false) stakes.apply('double');
+        else stakes.select(config.bet);
+        return stakes.stake;
+      },
+    };
+  },
+};
+
+/**
+ * Wraps a strategy with session limits: stop once the balance has fallen by
+ * `stopLoss` or grown by `stopWin` from the start.
+ */
+export function withStopLimits(
+  base: StrategyDef,
+  limits: { stopLoss?: number; stopWin?: number },
+): StrategyDef {
+  const parts = [
+    limits.stopLoss !== undefined ? `stop −${limits.stopLoss}` : '',
+    limits.stopWin !== undefined ? `+${limits.stopWin}` : '',
+  ].filter(Boolean);
+  return {
+    id: `${base.id}+stops`,
+    label: `${base.label} · ${parts.join(' / ')}`,
+    create: (config) => {
+      const inner = base.create(config);
+      return {
+        pickTower: (s) => inner.pickTower(s),
+        nextStake: (s) => {
+          const delta = s.balance - s.startBalance;
+          if (limits.stopLoss !== undefined && delta <= -limits.stopLoss) return 0;
+          if (limits.stopWin !== undefined && delta >= limits.stopWin) return 0;
+          return inner.nextStake(s);
+        },
+      };
+    },
+  };
+}
+
+export const DEFAULT_STRATEGIES: StrategyDef[] = [
+  ALWAYS_A,
+  ALTERNATE,
+  MARTINGALE,
+  withStopLimits(ALWAYS_A, { stopLoss: 300, stopWin: 300 }),
+];
+
+// ── Runner ───────────────────────────────────────────────────────────────────
+
+/**
+ * Plays `sessions` independent sessions of one strategy from a starting
+ * bankroll, settling every round through ProbabilityController.
+ */
+export function simulateSessions(
+  strategy: StrategyDef,
+  config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG,
+  opts: SessionOptions = {},
+): SessionSimulationResults {
+  const sessions = opts.sessions ?? 1000;
+  const startBalance = opts.startingBalance ?? 1000;
+  const maxRounds = opts.maxRounds ?? 200;
+  const sampleCurves = opts.sampleCurves ?? 5;
+
+  const rng = new Rng(opts.seed ?? 0x5e55);
+  const probability = new ProbabilityController(rng, config);
+  const multiple = payoutMultiplier(config);
+  const minStake = config.stakeLadder[0];
+
+  const finals: number[] = [];
+  const lengths: number[] = [];
+  const drawdowns: number[] = [];
+  const samples: number[][] = [];
+  let busts = 0;
+
+  for (let i = 0; i < sessions; i++) {
+    const player = strategy.create(config);
+    const state: SessionState = {
+      round: 0,
+      balance: startBalance,
+      startBalance,
+      lastTower: null,
+      lastStake: 0,
+      lastWin: null,
+    };
+    const curve = i < sampleCurves ? [startBalance] : null;
+    let peak = startBalance;
+    let drawdown = 0;
+    let bust = false;
+
+    while (state.round < maxRounds) {
+      if (state.balance < minStake) {
+        bust = true;
+        break;
+      }
+      const stake = player.nextStake(state);
+      if (stake <= 0) break;
+      // The game refuses a stake the balance cannot cover, so the strategy is out
+      if (stake > state.balance) {
+        bust = true;
+        break;
+      }
+      const tower = player.pickTower(state);
+      const win = probability.resolveRound(tower).selectedTowerWins;
+
+      state.balance += win ? stake * (multiple - 1) : -stake;
+      state.round++;
+      state.lastTower = tower;
+      state.lastStake = stake;
+      state.lastWin = win;
+
+      peak = Math.max(peak, state.balance);
+      drawdown = Math.max(drawdown, peak - state.balance);
+      curve?.push(state.balance);
+    }
+
+    if (bust) busts++;
+    finals.push(state.balance);
+    lengths.push(state.round);
+    drawdowns.push(drawdown);
+    if (curve) samples.push(curve);
+  }
+
+  const sortedFinals = [...finals].sort((a, b) => a - b);
+  return {
+    strategy: strategy.id,
+    label: strategy.label,
+    sessions,
+    startingBalance: startBalance,
+    bustProbability: busts / sessions,
+    medianLength: quantile([...lengths].sort((a, b) => a - b), 0.5),
+    meanFinalBalance: finals.reduce((a, b) => a + b, 0) / sessions,
+    finalBalance: {
+      p5: quantile(sortedFinals, 0.05),
+      p25: quantile(sortedFinals, 0.25),
+      p50: quantile(sortedFinals, 0.5),
+      p75: quantile(sortedFinals, 0.75),
+      p95: quantile(sortedFinals, 0.95),
+    },
+    maxDrawdown: {
+      median: quantile([...drawdowns].sort((a, b) => a - b), 0.5),
+      worst: drawdowns.reduce((a, b) => Math.max(a, b), 0),
+    },
+    samples,
+    histogram: histogram(sortedFinals, opts.histogramBins ?? 20),
+  };
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+/** Linear-interpolated quantile of an ascending array. */
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function histogram(sorted: number[], bins: number): Histogram {
+  const min = sorted[0] ?? 0;
+  const max = sorted[sorted.length - 1] ?? 0;
+  const width = max > min ? (max - min) / bins : 1;
+  const edges = Array.from({ length: bins + 1 }, (_, i) => min + i * width);
+  const counts = new Array<number>(bins).fill(0);
+  for (const v of sorted) {
+    counts[Math.min(bins - 1, Math.floor((v - min) / width))]++;
+  }
+  return { edges, counts };
+}
@@ -0,0 +1,88 @@
+import { RoundResolution } from './ProbabilityController';
+import { ProbabilityConfig, SIDE_BET_IDS, SideBetId } from './ProbabilityConfig';
+import { OutcomeBranch, enumerateOutcomes } from './RtpCalculator';
+
+export interface SideBetDef {
+  id: SideBetId;
+  label: string;
+  icon: string;
+  /** Whether the side bet wins for a round outcome (tower pick is irrelevant). */
+  wins(r: Omit<RoundResolution, 'selectedTowerWins'>): boolean;
+}
+
+export const SIDE_BETS: Record<SideBetId, SideBetDef> = {
+  doublePlane: {
+    id: 'doublePlane',
+    label: 'Double plane',
+    icon: '✈️',
+    wins: (r) => r.secondPlaneTriggered,
+  },
+  collapse: {
+    id: 'collapse',
+    label: 'Self-collapse',
+    icon: '🧱',
+    wins: (r) => r.collapseTriggered,
+  },
+  cleanMiss: {
+    id: 'cleanMiss',
+    label: 'Clean miss',
+    icon: '💨',
+    wins: (r) => r.firstPlane === 'miss',
+  },
+};
+
+/** Side-bet stakes placed for one round; missing ids are not played. */
+export type SideBetStakes = Partial<Record<SideBetId, number>>;
+
+export interface SideBetSettlement {
+  id: SideBetId;
+  stake: number;
+  won: boolean;
+  /** Total returned (stake included), 0 on a loss. */
+  payout: number;
+}
+
+/** Exact probability that a side bet wins, summed over the outcome tree. */
+export function sideBetProbability(
+  config: ProbabilityConfig,
+  id: SideBetId,
+  branches: OutcomeBranch[] = enumerateOutcomes(config),
+): number {
+  return branches.reduce((p, b) => (SIDE_BETS[id].wins(b) ? p + b.probability : p), 0);
+}
+
+/**
+ * Return multiple of every side bet, priced so that
+ * P(event) × multiple = config.sideBetRtp[id]. A side bet whose event
+ * cannot happen under the config gets multiple 0 and cannot be placed.
+ */
+export function sideBetMultipliers(config: ProbabilityConfig): Record<SideBetId, number> {
+  const branches = enumerateOutcomes(config);
+  const out = {} as Record<SideBetId, number>;
+  for (const id of SIDE_BET_IDS) {
+    const p = sideBetProbability(config, id, branches);
+    out[id] = p > 0 ? config.sideBetRtp[id] / p : 0;
+  }
+  return out;
+}
+
+/** Settles every placed side bet against a round outcome. */
+export function settleSideBets(
+  stakes: SideBetStakes,
+  resolution: RoundResolution,
+  multipliers: Record<SideBetId, number>,
+): SideBetSettlement[] {
+  const out: SideBetSettlement[] = [];
+  for (const id of SIDE_BET_IDS) {
+    const stake = stakes[id];
+    if (!stake) continue;
+    const won = SIDE_BETS[id].wins(resolution);
+    out.push({ id, stake, won, payout: won ? stake * multipliers[id] : 0 });
+  }
+  return out;
+}
+
+/** Sum of all side-bet stakes. */
+export function totalSideStake(stakes: SideBetStakes): number {
+  return SIDE_BET_IDS.reduce((sum, id) => sum + (stakes[id] ?? 0), 0);
+}
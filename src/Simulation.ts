@@ -1,59 +1,198 @@
 import { Rng } from './Rng';
-import { PlaneOutcome, ProbabilityController, TowerId } from './ProbabilityController';
+import { ComboBet, PlaneOutcome, ProbabilityController, TowerId, betWins } from './ProbabilityController';
+import {
+  DEFAULT_PROBABILITY_CONFIG,
+  ProbabilityConfig,
+  SIDE_BET_IDS,
+  SideBetId,
+  payoutMultiplier,
+} from './ProbabilityConfig';
+import { SIDE_BETS, sideBetMultipliers } from './SideBets';
+import { COMBO_BETS, betMultipliers } from './BetTypes';
+import { CashOutLadder, CashOutStrategy, ladderMultipliers } from './Ladder';
+
+/** One combination bet placed every simulated round at a unit stake. */
+export interface ComboBetStats {
+  winRate: number;
+  rtp: number;
+}
+
+/** One side bet placed every simulated round at a unit stake. */
+export interface SideBetStats {
+  hitRate: number;
+  rtp: number;
+}
 
 export interface SimulationResults {
   rounds: number;
   winRate: number;
   effectiveRtp: number;
+  netPerRound: number;
   hitA: number;
   hitB: number;
   miss: number;
   doublePlane: number;
   collapse: number;
+  comboBets: Record<ComboBet, ComboBetStats>;
+  sideBets: Record<SideBetId, SideBetStats>;
 }
 
-export function simulate(rounds: number): SimulationResults {
-  const rng = new Rng(0x5eedc0de);
-  const probability = new ProbabilityController(rng);
+/** Seed used when none is given, so default runs are reproducible. */
+export const DEFAULT_SIMULATION_SEED = 0x5eedc0de;
+
+export function simulate(
+  rounds: number,
+  config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG,
+  seed = DEFAULT_SIMULATION_SEED,
+): SimulationResults {
+  const run = new SimulationRun(config, seed);
+  run.step(rounds);
+  return run.results();
+}
 
-  let wins = 0;
-  let hitA = 0;
-  let hitB = 0;
-  let miss = 0;
-  let doublePlane = 0;
-  let collapse = 0;
+/**
+ * Incremental form of simulate(): rounds can be played in chunks, with
+ * results available after each one. The same total number of rounds gives
+ * the same results however it is chunked.
+ */
+export class SimulationRun {
+  readonly config: ProbabilityConfig;
+  private readonly rng: Rng;
+  private readonly probability: ProbabilityController;
 
-  for (let i = 0; i < rounds; i++) {
-    const pickedTower: TowerId = rng.chance(0.5) ? 'A' : 'B';
-    const resolution = probability.resolveRound(pickedTower);
+  private played = 0;
+  private wins = 0;
+  private hitA = 0;
+  private hitB = 0;
+  private miss = 0;
+  private doublePlane = 0;
+  private collapse = 0;
+  private readonly comboWins: Record<ComboBet, number> = { both: 0, neither: 0, one: 0 };
+  private readonly sideHits = Object.fromEntries(SIDE_BET_IDS.map((id) => [id, 0])) as Record<SideBetId, number>;
 
-    if (resolution.selectedTowerWins) wins++;
-    if (resolution.collapseTriggered) collapse++;
-    if (resolution.secondPlaneTriggered) doublePlane++;
+  constructor(config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG, seed = DEFAULT_SIMULATION_SEED) {
+    this.config = config;
+    this.rng = new Rng(seed);
+    this.probability = new ProbabilityController(this.rng, config);
+  }
+
+  get rounds(): number { return this.played; }
+
+  step(rounds: number): void {
+    for (let i = 0; i < rounds; i++) {
+      const pickedTower: TowerId = this.rng.chance(0.5) ? 'A' : 'B';
+      const resolution = this.probability.resolveRound(pickedTower);
+
+      if (resolution.selectedTowerWins) this.wins++;
+      if (resolution.collapseTriggered) this.collapse++;
+      if (resolution.secondPlaneTriggered) this.doublePlane++;
+      for (const bet of COMBO_BETS) {
+        if (betWins(bet, resolution.survives)) this.comboWins[bet]++;
+      }
+      for (const id of SIDE_BET_IDS) {
+        if (SIDE_BETS[id].wins(resolution)) this.sideHits[id]++;
+      }
 
-    countOutcome(resolution.firstPlane);
-    if (resolution.secondPlane) {
-      countOutcome(resolution.secondPlane);
+      this.countOutcome(resolution.firstPlane);
+      if (resolution.secondPlane) {
+        this.countOutcome(resolution.secondPlane);
+      }
     }
+    this.played += rounds;
   }
 
-  const winRate = wins / rounds;
-  const effectiveRtp = winRate * (ProbabilityController.PAYOUT_ON_WIN / ProbabilityController.BET);
+  results(): SimulationResults {
+    const { config } = this;
+    const rounds = Math.max(1, this.played);
+    const winRate = this.wins / rounds;
+    const effectiveRtp = winRate * payoutMultiplier(config);
+    const multipliers = sideBetMultipliers(config);
+    const betMultiples = betMultipliers(config);
 
-  return {
-    rounds,
-    winRate,
-    effectiveRtp,
-    hitA: hitA / rounds,
-    hitB: hitB / rounds,
-    miss: miss / rounds,
-    doublePlane: doublePlane / rounds,
-    collapse: collapse / rounds,
+    return {
+      rounds: this.played,
+      winRate,
+      effectiveRtp,
+      netPerRound: winRate * config.payoutOnWin - config.bet,
+      hitA: this.hitA / rounds,
+      hitB: this.hitB / rounds,
+      miss: this.miss / rounds,
+      doublePlane: this.doublePlane / rounds,
+      collapse: this.collapse / rounds,
+      comboBets: Object.fromEntries(COMBO_BETS.map((bet) => [bet, {
+        winRate: this.comboWins[bet] / rounds,
+        rtp: (this.comboWins[bet] / rounds) * betMultiples[bet],
+      }])) as Record<ComboBet, ComboBetStats>,
+      sideBets: Object.fromEntries(SIDE_BET_IDS.map((id) => [id, {
+        hitRate: this.sideHits[id] / rounds,
+        rtp: (this.sideHits[id] / rounds) * multipliers[id],
+      }])) as Record<SideBetId, SideBetStats>,
+    };
+  }
+
+  private countOutcome(outcome: PlaneOutcome): void {
+    if (outcome === 'hitA') this.hitA++;
+    if (outcome === 'hitB') this.hitB++;
+    if (outcome === 'miss') this.miss++;
+  }
+}
+
+export interface LadderSimulationResults {
+  strategy: string;
+  rounds: number;
+  rtp: number;
+  /** Share of rounds that ended in a cash-out (the rest lost the pot). */
+  cashOutRate: number;
+  avgWaves: number;
+  /** Share of rounds reaching each wave count, index = waves survived. */
+  waveReached: number[];
+}
+
+/**
+ * Ladder mode: every round backs a random tower, survives waves until the
+ * strategy cashes out, the tower falls or the top wave is reached.
+ */
+export function simulateLadder(
+  rounds: number,
+  strategy: CashOutStrategy,
+  config: ProbabilityConfig = DEFAULT_PROBABILITY_CONFIG,
+): LadderSimulationResults {
+  const rng = new Rng(0x1add3e);
+  const probability = new ProbabilityController(rng, config);
+  const multipliers: Record<TowerId, number[]> = {
+    A: ladderMultipliers(config, 'A'),
+    B: ladderMultipliers(config, 'B'),
   };
 
-  function countOutcome(outcome: PlaneOutcome): void {
-    if (outcome === 'hitA') hitA++;
-    if (outcome === 'hitB') hitB++;
-    if (outcome === 'miss') miss++;
+  let returned = 0;
+  let cashOuts = 0;
+  let waves = 0;
+  const reached = new Array<number>(config.ladder.maxWaves + 1).fill(0);
+
+  for (let i = 0; i < rounds; i++) {
+    const tower: TowerId = rng.chance(0.5) ? 'A' : 'B';
+    const ladder = new CashOutLadder(multipliers[tower], 1);
+
+    while (!ladder.isOver) {
+      if (ladder.atTop || (ladder.canCashOut && strategy.shouldCashOut(ladder.wave, ladder.multiplier))) {
+        returned += ladder.cashOut();
+        cashOuts++;
+        break;
+      }
+      if (probability.resolveRound(tower).selectedTowerWins) ladder.onSafeWave();
+      else ladder.onDestroyed();
+    }
+
+    waves += ladder.wave;
+    for (let w = 0; w <= ladder.wave; w++) reached[w]++;
   }
+
+  return {
+    strategy: strategy.label,
+    rounds,
+    rtp: returned / rounds,
+    cashOutRate: cashOuts / rounds,
+    avgWaves: waves / rounds,
+    waveReached: reached.map((n) => n / rounds),
+  };
 }
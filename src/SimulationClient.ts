@@ -0,0 +1,88 @@
+import {
+  SimulationBundle,
+  SimulationJob,
+  SimulationProgress,
+  SimulationRequest,
+  SimulationResponse,
+} from './SimulationProtocol';
+
+export interface SimulationTask {
+  readonly id: number;
+  /** Resolves with the results, or null if the task was cancelled. */
+  readonly result: Promise<SimulationBundle | null>;
+  cancel(): void;
+}
+
+interface Pending {
+  resolve(bundle: SimulationBundle | null): void;
+  reject(err: Error): void;
+  onProgress?: (p: SimulationProgress) => void;
+}
+
+/**
+ * Page-side handle on the simulation worker. The worker is started on the
+ * first run and reused; several tasks may be queued, each with its own id.
+ */
+export class SimulationClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private readonly pending = new Map<number, Pending>();
+
+  run(job: SimulationJob, onProgress?: (p: SimulationProgress) => void): SimulationTask {
+    const id = this.nextId++;
+    const result = new Promise<SimulationBundle | null>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+    });
+    this.send({ type: 'start', id, job });
+    return { id, result, cancel: () => this.cancel(id) };
+  }
+
+  cancel(id: number): void {
+    if (this.pending.has(id)) this.send({ type: 'cancel', id });
+  }
+
+  /** Stops the worker; pending tasks resolve as cancelled. */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    for (const p of this.pending.values()) p.resolve(null);
+    this.pending.clear();
+  }
+
+  private send(msg: SimulationRequest): void {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./SimulationWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (e: MessageEvent<SimulationResponse>) => this.receive(e.data));
+      this.worker.addEventListener('error', (e) => this.fail(new Error(`Simulation worker: ${e.message}`)));
+    }
+    this.worker.postMessage(msg);
+  }
+
+  private receive(msg: SimulationResponse): void {
+    const p = this.pending.get(msg.id);
+    if (!p) return;
+    switch (msg.type) {
+      case 'progress':
+        p.onProgress?.({ phase: msg.phase, done: msg.done, total: msg.total, partial: msg.partial });
+        return;
+      case 'result':
+        p.resolve(msg.bundle);
+        break;
+      case 'cancelled':
+        p.resolve(null);
+        break;
+      case 'error':
+        p.reject(new Error(msg.message));
+        break;
+    }
+    this.pending.delete(msg.id);
+  }
+
+  /** A crashed worker takes every pending task with it. */
+  private fail(err: Error): void {
+    this.worker?.terminate();
+    this.worker = null;
+    for (const p of this.pending.values()) p.reject(err);
+    this.pending.clear();
+  }
+}
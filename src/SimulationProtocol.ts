@@ -0,0 +1,48 @@
+import { ProbabilityConfig } from './ProbabilityConfig';
+import { LadderSimulationResults, SimulationResults } from './Simulation';
+import { SessionSimulationResults } from './SessionSimulation';
+
+/**
+ * Message protocol between the page (SimulationClient) and the simulation
+ * Web Worker (SimulationWorker). Every message carries the job `id`, so stale
+ * messages from a cancelled job can be told apart from the current one.
+ */
+
+/** One simulation run. Strategies are not cloneable, so the worker uses the built-in sets. */
+export interface SimulationJob {
+  rounds: number;
+  config: ProbabilityConfig;
+  /** Rounds per ladder cash-out strategy; 0 skips the ladder phase. */
+  ladderRounds: number;
+  /** Sessions per player strategy; 0 skips the sessions phase. */
+  sessions: number;
+}
+
+export type SimulationPhase = 'rounds' | 'ladder' | 'sessions';
+
+export interface SimulationBundle {
+  rounds: SimulationResults;
+  ladder: LadderSimulationResults[];
+  sessions: SessionSimulationResults[];
+}
+
+export interface SimulationProgress {
+  phase: SimulationPhase;
+  done: number;
+  total: number;
+  /** Results over the rounds played so far. */
+  partial: SimulationResults;
+}
+
+export type SimulationRequest =
+  | { type: 'start'; id: number; job: SimulationJob }
+  | { type: 'cancel'; id: number };
+
+export type SimulationResponse =
+  | ({ type: 'progress'; id: number } & SimulationProgress)
+  | { type: 'result'; id: number; bundle: SimulationBundle }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+/** Rounds simulated between progress messages (and cancel checks). */
+export const PROGRESS_CHUNK = 50_000;
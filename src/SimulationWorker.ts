@@ -0,0 +1,76 @@
+import { DEFAULT_CASH_OUT_STRATEGIES } from './Ladder';
+import { DEFAULT_STRATEGIES, simulateSessions } from './SessionSimulation';
+import { SimulationRun, simulateLadder } from './Simulation';
+import {
+  PROGRESS_CHUNK,
+  SimulationBundle,
+  SimulationJob,
+  SimulationRequest,
+  SimulationResponse,
+} from './SimulationProtocol';
+
+/**
+ * Web Worker entry: runs simulation jobs off the main thread, streaming
+ * progress after every chunk. Between chunks it yields to the event loop
+ * so a `cancel` message can land mid-run.
+ */
+
+const cancelled = new Set<number>();
+
+self.addEventListener('message', (e: MessageEvent<SimulationRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'cancel') cancelled.add(msg.id);
+  else void run(msg.id, msg.job);
+});
+
+async function run(id: number, job: SimulationJob): Promise<void> {
+  try {
+    const bundle = await execute(id, job);
+    post(bundle ? { type: 'result', id, bundle } : { type: 'cancelled', id });
+  } catch (err) {
+    post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    cancelled.delete(id);
+  }
+}
+
+/** Returns null once the job has been cancelled. */
+async function execute(id: number, job: SimulationJob): Promise<SimulationBundle | null> {
+  const sim = new SimulationRun(job.config);
+  while (sim.rounds < job.rounds) {
+    sim.step(Math.min(PROGRESS_CHUNK, job.rounds - sim.rounds));
+    post({ type: 'progress', id, phase: 'rounds', done: sim.rounds, total: job.rounds, partial: sim.results() });
+    if (!(await stillWanted(id))) return null;
+  }
+  const rounds = sim.results();
+
+  const ladder = [];
+  if (job.ladderRounds > 0) {
+    for (const [i, strategy] of DEFAULT_CASH_OUT_STRATEGIES.entries()) {
+      ladder.push(simulateLadder(job.ladderRounds, strategy, job.config));
+      post({ type: 'progress', id, phase: 'ladder', done: i + 1, total: DEFAULT_CASH_OUT_STRATEGIES.length, partial: rounds });
+      if (!(await stillWanted(id))) return null;
+    }
+  }
+
+  const sessions = [];
+  if (job.sessions > 0) {
+    for (const [i, strategy] of DEFAULT_STRATEGIES.entries()) {
+      sessions.push(simulateSessions(strategy, job.config, { sessions: job.sessions }));
+      post({ type: 'progress', id, phase: 'sessions', done: i + 1, total: DEFAULT_STRATEGIES.length, partial: rounds });
+      if (!(await stillWanted(id))) return null;
+    }
+  }
+
+  return { rounds, ladder, sessions };
+}
+
+/** Yields one macrotask so queued messages (e.g. cancel) are handled. */
+async function stillWanted(id: number): Promise<boolean> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  return !cancelled.has(id);
+}
+
+function post(msg: SimulationResponse): void {
+  self.postMessage(msg);
+}
@@ -0,0 +1,63 @@
+export type StakeAction = 'min' | 'half' | 'down' | 'up' | 'double' | 'max';
+
+/**
+ * The player's stake, restricted to a fixed ascending ladder of values.
+ * Half / double jump to the nearest ladder rung at or beyond half / twice
+ * the current stake, so they work with any ladder shape.
+ */
+export class StakeLadder {
+  private readonly rungs: readonly number[];
+  private index: number;
+
+  constructor(rungs: readonly number[], initial: number) {
+    if (rungs.length === 0) throw new Error('StakeLadder: ladder must not be empty');
+    this.rungs = rungs;
+    this.index = this.nearestIndex(initial);
+  }
+
+  get stake(): number { return this.rungs[this.index]; }
+  get min(): number { return this.rungs[0]; }
+  get max(): number { return this.rungs[this.rungs.length - 1]; }
+  get atMin(): boolean { return this.index === 0; }
+  get atMax(): boolean { return this.index === this.rungs.length - 1; }
+
+  /** Applies a selector action and returns the new stake. */
+  apply(action: StakeAction): number {
+    const last = this.rungs.length - 1;
+    switch (action) {
+      case 'min':    this.index = 0; break;
+      case 'max':    this.index = last; break;
+      case 'down':   this.index = Math.max(0, this.index - 1); break;
+      case 'up':     this.index = Math.min(last, this.index + 1); break;
+      case 'half': {
+        const target = this.stake / 2;
+        let i = this.index - 1;
+        while (i > 0 && this.rungs[i] > target) i--;
+        this.index = Math.max(0, i);
+        break;
+      }
+      case 'double': {
+        const target = this.stake * 2;
+        let i = this.index + 1;
+        while (i < last && this.rungs[i] < target) i++;
+        this.index = Math.min(last, i);
+        break;
+      }
+    }
+    return this.stake;
+  }
+
+  /** Selects the rung closest to `value`. */
+  select(value: number): number {
+    this.index = this.nearestIndex(value);
+    return this.stake;
+  }
+
+  private nearestIndex(value: number): number {
+    let best = 0;
+    for (let i = 1; i < this.rungs.length; i++) {
+      if (Math.abs(this.rungs[i] - value) < Math.abs(this.rungs[best] - value)) best = i;
+    }
+    return best;
+  }
+}
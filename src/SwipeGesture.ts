@@ -0,0 +1,178 @@
+/** What a recognized swipe drives; implemented by CardGame. */
+export interface SwipeHandlers {
+  /**
+   * The finger moved. `offset` is how far the card should sit from rest:
+   * negative when pulled up, a small rubber-banded positive value when
+   * pulled down.
+   */
+  onDrag(offset: number): void;
+  /** The gesture crossed a distance or velocity threshold: go to the next card. */
+  onCommit(): void;
+  /** The drag ended short of both thresholds; the card should snap back. */
+  onCancel(): void;
+  /** While true, new gestures are ignored (e.g. a card transition is running). */
+  isBlocked(): boolean;
+}
+
+export interface SwipeOptions {
+  /** Upward drag, as a fraction of the surface height, that commits on release. */
+  distance: number;
+  /** Floor for `distance` in px, for short viewports. */
+  minDistance: number;
+  /** Upward release speed (px/ms) that commits a shorter flick. */
+  flickVelocity: number;
+  /** A flick must still travel this far (px), so taps never commit. */
+  flickMinDistance: number;
+  /** Accumulated wheel delta (px) that commits. */
+  wheelDistance: number;
+  /** Wheel pause (ms) after which the accumulated delta starts over. */
+  wheelIdleMs: number;
+  /** Wheel events are dropped for this long (ms) after a wheel commit – trackpad inertia. */
+  wheelCooldownMs: number;
+}
+
+export const DEFAULT_SWIPE_OPTIONS: SwipeOptions = {
+  distance: 0.18,
+  minDistance: 60,
+  flickVelocity: 0.45,
+  flickMinDistance: 24,
+  wheelDistance: 60,
+  wheelIdleMs: 200,
+  wheelCooldownMs: 450,
+};
+
+/** Only the last VELOCITY_WINDOW ms of movement count towards release speed. */
+const VELOCITY_WINDOW = 100;
+/** Share of a downward drag the card follows. */
+const RUBBER_BAND = 0.2;
+/** Pixels per line for wheel events reported in lines (Firefox). */
+const WHEEL_LINE_PX = 16;
+
+/**
+ * Recognizes "next card" gestures: a vertical drag (touch or mouse, via
+ * pointer events with a touch-event fallback) or a downward wheel scroll.
+ *
+ * The recognizer itself is DOM-free – `begin` / `move` / `end` / `wheel`
+ * take coordinates and timestamps – and `attach` feeds it from an element.
+ */
+export class SwipeGesture {
+  private readonly handlers: SwipeHandlers;
+  private readonly opts: SwipeOptions;
+  private drag: { startY: number; extent: number; samples: { y: number; t: number }[] } | null = null;
+  private wheelDelta = 0;
+  private lastWheelAt = -Infinity;
+  private wheelBlockedUntil = -Infinity;
+
+  constructor(handlers: SwipeHandlers, opts: Partial<SwipeOptions> = {}) {
+    this.handlers = handlers;
+    this.opts = { ...DEFAULT_SWIPE_OPTIONS, ...opts };
+  }
+
+  get dragging(): boolean { return this.drag !== null; }
+
+  // ── Drag ─────────────────────────────────────────────────────────────────
+
+  /** Starts a drag at `y`; `extent` is the surface height. False when blocked. */
+  begin(y: number, t: number, extent: number): boolean {
+    if (this.drag || this.handlers.isBlocked()) return false;
+    this.drag = { startY: y, extent, samples: [{ y, t }] };
+    return true;
+  }
+
+  move(y: number, t: number): void {
+    if (!this.drag) return;
+    this.sample(y, t);
+    const dy = y - this.drag.startY;
+    this.handlers.onDrag(dy < 0 ? dy : dy * RUBBER_BAND);
+  }
+
+  /** Ends the drag at `y` and commits or cancels it. */
+  end(y: number, t: number): void {
+    if (!this.drag) return;
+    this.sample(y, t);
+    const { startY, extent, samples } = this.drag;
+    this.drag = null;
+
+    const pulled = startY - y;
+    const first = samples[0];
+    const velocity = t > first.t ? (first.y - y) / (t - first.t) : 0;
+    const far = pulled >= Math.max(this.opts.minDistance, extent * this.opts.distance);
+    const flick = pulled >= this.opts.flickMinDistance && velocity >= this.opts.flickVelocity;
+
+    if ((far || flick) && !this.handlers.isBlocked()) this.handlers.onCommit();
+    else this.handlers.onCancel();
+  }
+
+  /** Drops a drag without committing (pointer cancelled, lost capture). */
+  abort(): void {
+    if (!this.drag) return;
+    this.drag = null;
+    this.handlers.onCancel();
+  }
+
+  // ── Wheel ────────────────────────────────────────────────────────────────
+
+  /** Feeds one wheel event; `deltaY` in px, positive = scroll down. */
+  wheel(deltaY: number, t: number): void {
+    if (t < this.wheelBlockedUntil || this.drag || this.handlers.isBlocked()) return;
+    if (t - this.lastWheelAt > this.opts.wheelIdleMs) this.wheelDelta = 0;
+    this.lastWheelAt = t;
+
+    this.wheelDelta = Math.max(0, this.wheelDelta + deltaY);
+    if (this.wheelDelta < this.opts.wheelDistance) return;
+
+    this.wheelDelta = 0;
+    this.wheelBlockedUntil = t + this.opts.wheelCooldownMs;
+    this.handlers.onCommit();
+  }
+
+  // ── DOM binding ──────────────────────────────────────────────────────────
+
+  /** Feeds the recognizer from `target` until `signal` aborts. */
+  attach(target: HTMLElement, signal: AbortSignal): void {
+    const on = <K extends keyof HTMLElementEventMap>(
+      type: K,
+      cb: (e: HTMLElementEventMap[K]) => void,
+      passive = true,
+    ) => target.addEventListener(type, cb, { signal, passive });
+    const extent = () => target.getBoundingClientRect().height || window.innerHeight;
+
+    if (typeof PointerEvent !== 'undefined') {
+      let pointerId: number | null = null;
+      on('pointerdown', (e) => {
+        if (!e.isPrimary || e.button !== 0 || !this.begin(e.clientY, e.timeStamp, extent())) return;
+        pointerId = e.pointerId;
+        target.setPointerCapture?.(e.pointerId);
+      });
+      on('pointermove', (e) => { if (e.pointerId === pointerId) this.move(e.clientY, e.timeStamp); });
+      on('pointerup', (e) => {
+        if (e.pointerId !== pointerId) return;
+        pointerId = null;
+        this.end(e.clientY, e.timeStamp);
+      });
+      on('pointercancel', (e) => {
+        if (e.pointerId !== pointerId) return;
+        pointerId = null;
+        this.abort();
+      });
+    } else {
+      on('touchstart', (e) => { this.begin(e.touches[0].clientY, e.timeStamp, extent()); });
+      on('touchmove', (e) => this.move(e.touches[0].clientY, e.timeStamp));
+      on('touchend', (e) => this.end(e.changedTouches[0].clientY, e.timeStamp));
+      on('touchcancel', () => this.abort());
+    }
+
+    on('wheel', (e) => {
+      e.preventDefault();
+      const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_PX
+        : e.deltaMode === WheelEvent.DOM_DELTA_PAGE ? extent() : 1;
+      this.wheel(e.deltaY * scale, e.timeStamp);
+    }, false);
+  }
+
+  private sample(y: number, t: number): void {
+    const samples = this.drag!.samples;
+    samples.push({ y, t });
+    while (samples.length > 2 && t - samples[0].t > VELOCITY_WINDOW) samples.shift();
+  }
+}
@@ -0,0 +1,223 @@
+import { ProbabilityConfig, effectiveCollapseChance, payoutMultiplier } from './ProbabilityConfig';
+import { ExactRtpResults, computeExactRtp, planeOutcomeProbabilities, rtpConfidenceInterval } from './RtpCalculator';
+import { SimulationResults, simulate } from './Simulation';
+
+export type TuningKnob = keyof ProbabilityConfig['tuning'];
+
+export interface TuningConstraints {
+  /** Lowest allowed chance that the first plane visibly misses. */
+  minMissRate?: number;
+  /** Highest allowed per-round self-collapse chance. */
+  maxCollapseRate?: number;
+  /** Knobs the solver may move (default: all three). */
+  knobs?: TuningKnob[];
+  /** Rounds for the confirming simulation; 0 skips it. Default 200k. */
+  confirmRounds?: number;
+}
+
+export interface KnobChange {
+  knob: TuningKnob;
+  from: number;
+  to: number;
+}
+
+export interface TuningSolution {
+  config: ProbabilityConfig;
+  exact: ExactRtpResults;
+  simulated: SimulationResults | null;
+  /** Exact RTP lies inside the simulated run's 95% confidence interval. */
+  confirmed: boolean | null;
+  changes: KnobChange[];
+  /** Human-readable summary: knob moves, then resulting event frequencies. */
+  explanation: string[];
+}
+
+const ALL_KNOBS: TuningKnob[] = ['collapseMultiplier', 'hitWeightMultiplier', 'missWeightMultiplier'];
+const MAX_MULTIPLIER = 1000;
+const RTP_EPSILON = 1e-12;
+
+/**
+ * Searches the ProbabilityController tuning space for a config whose exact
+ * (analytic) RTP equals `targetRtp`, then confirms it by simulation.
+ *
+ * Search order keeps the game's feel as stable as possible:
+ *  1. collapseMultiplier alone – plane mix untouched;
+ *  2. if that cannot reach the target within `maxCollapseRate`, pin collapse
+ *     at its bound and move the hit/miss ratio (hit knob first, then miss),
+ *     never letting the miss rate fall below `minMissRate`.
+ */
+export function solveTuning(
+  targetRtp: number,
+  base: ProbabilityConfig,
+  constraints: TuningConstraints = {},
+): TuningSolution {
+  const multiple = payoutMultiplier(base);
+  if (!(targetRtp > 0 && targetRtp < multiple)) {
+    throw new Error(`TuningSolver: target RTP must be in (0, ${multiple}), got ${targetRtp}`);
+  }
+
+  const knobs = constraints.knobs ?? ALL_KNOBS;
+  const minMiss = constraints.minMissRate ?? 0;
+  const maxCollapse = Math.min(1, constraints.maxCollapseRate ?? 1);
+  const notes: string[] = [];
+
+  let config = withTuning(base, {});
+  config.targetRtp = targetRtp;
+  config.id = `${base.id}@${(targetRtp * 100).toFixed(2)}`;
+  config.label = `${base.label} · ${(targetRtp * 100).toFixed(2)}% RTP`;
+
+  const rtpOf = (c: ProbabilityConfig) => computeExactRtp(c).rtp;
+
+  // ── Bring the base into the feasible region first ──
+  const planeKnob: TuningKnob | null =
+    knobs.includes('hitWeightMultiplier') ? 'hitWeightMultiplier'
+      : knobs.includes('missWeightMultiplier') ? 'missWeightMultiplier'
+        : null;
+  const missBound = planeKnob ? missRateBound(config, planeKnob, minMiss) : null;
+
+  if (planeOutcomeProbabilities(config).miss < minMiss) {
+    if (!planeKnob || missBound === null) {
+      throw new Error(`TuningSolver: miss rate is below ${minMiss} and no plane knob may move`);
+    }
+    config = withTuning(config, { [planeKnob]: missBound });
+    notes.push(`${planeKnob} moved to ${fmt(missBound)} to lift the miss rate to ${pct(minMiss)}`);
+  }
+  if (effectiveCollapseChance(config) > maxCollapse) {
+    if (!knobs.includes('collapseMultiplier') || config.collapse === 0) {
+      throw new Error(`TuningSolver: collapse rate exceeds ${maxCollapse} and collapseMultiplier may not move`);
+    }
+    config = withTuning(config, { collapseMultiplier: maxCollapse / config.collapse });
+    notes.push(`collapseMultiplier capped so collapse ≤ ${pct(maxCollapse)}`);
+  }
+
+  // ── Step 1: collapse only ──
+  if (knobs.includes('collapseMultiplier') && config.collapse > 0) {
+    const hi = maxCollapse / config.collapse;
+    const x = solveMonotone((v) => rtpOf(withTuning(config, { collapseMultiplier: v })), 0, hi, targetRtp);
+    if (x.solved) {
+      config = withTuning(config, { collapseMultiplier: x.value });
+      return finish(config, base, constraints, notes);
+    }
+    // Pin at whichever bound gets closest, then fall through to the plane knob
+    config = withTuning(config, { collapseMultiplier: x.value });
+    notes.push(`collapseMultiplier alone cannot reach ${pct(targetRtp)}; pinned at ${fmt(x.value)}`);
+  }
+
+  // ── Step 2: hit/miss ratio ──
+  if (planeKnob) {
+    const [lo, hi] = planeKnob === 'hitWeightMultiplier'
+      ? [1e-9, missBound ?? MAX_MULTIPLIER]
+      : [missBound ?? 1e-9, MAX_MULTIPLIER];
+    const x = solveMonotone((v) => rtpOf(withTuning(config, { [planeKnob]: v })), lo, hi, targetRtp);
+    if (x.solved) {
+      config = withTuning(config, { [planeKnob]: x.value });
+      return finish(config, base, constraints, notes);
+    }
+  }
+
+  throw new Error(
+    `TuningSolver: target RTP ${pct(targetRtp)} is unreachable with knobs [${knobs.join(', ')}]`
+    + ` (minMissRate ${pct(minMiss)}, maxCollapseRate ${pct(maxCollapse)})`,
+  );
+}
+
+/** Multi-line plain-text report of a solution (CLI / console friendly). */
+export function formatTuningReport(s: TuningSolution): string {
+  return [`Tuned config "${s.config.id}"`, ...s.explanation.map((l) => `  ${l}`)].join('\n');
+}
+
+// ── Private helpers ──────────────────────────────────────────────────────────
+
+function finish(
+  config: ProbabilityConfig,
+  base: ProbabilityConfig,
+  constraints: TuningConstraints,
+  notes: string[],
+): TuningSolution {
+  const exact = computeExactRtp(config);
+  const rounds = constraints.confirmRounds ?? 200_000;
+  const simulated = rounds > 0 ? simulate(rounds, config) : null;
+
+  let confirmed: boolean | null = null;
+  if (simulated) {
+    const ci = rtpConfidenceInterval(simulated.winRate, simulated.rounds, config);
+    confirmed = exact.rtp >= ci.low && exact.rtp <= ci.high;
+  }
+
+  const changes: KnobChange[] = ALL_KNOBS
+    .map((knob) => ({ knob, from: base.tuning[knob], to: config.tuning[knob] }))
+    .filter((c) => c.from !== c.to);
+
+  const explanation = [
+    ...changes.map((c) => `${c.knob}: ${fmt(c.from)} → ${fmt(c.to)}`
+      + (c.from !== 0 ? ` (${signedPct(c.to / c.from - 1)})` : '')),
+    ...notes,
+    `exact RTP ${pct(exact.rtp, 4)} (target ${pct(config.targetRtp, 4)}), P(win) ${pct(exact.winProbability, 4)}`,
+    `events / round: hit A ${pct(exact.hitA)}, hit B ${pct(exact.hitB)}, miss ${pct(exact.miss)},`
+      + ` double plane ${pct(exact.doublePlane)}, collapse ${pct(exact.collapse)}`,
+  ];
+  if (simulated) {
+    explanation.push(
+      `simulated ${simulated.rounds} rounds: RTP ${pct(simulated.effectiveRtp)}`
+      + ` – ${confirmed ? 'exact value inside' : 'exact value OUTSIDE'} the 95% CI`,
+    );
+  }
+
+  return { config, exact, simulated, confirmed, changes, explanation };
+}
+
+/** Largest hit / smallest miss multiplier that keeps P(first plane miss) ≥ minMiss. */
+function missRateBound(config: ProbabilityConfig, knob: TuningKnob, minMiss: number): number | null {
+  if (minMiss <= 0) return null;
+  const missOf = (v: number) => planeOutcomeProbabilities(withTuning(config, { [knob]: v })).miss;
+  const x = solveMonotone(missOf, 1e-9, MAX_MULTIPLIER, minMiss);
+  return x.solved ? x.value : null;
+}
+
+/**
+ * Bisection on a monotone f over [lo, hi]. When the target is not bracketed,
+ * returns the bound whose value is closest to it with `solved: false`.
+ */
+function solveMonotone(
+  f: (x: number) => number,
+  lo: number,
+  hi: number,
+  target: number,
+): { value: number; solved: boolean } {
+  const fLo = f(lo);
+  const fHi = f(hi);
+  const increasing = fHi >= fLo;
+
+  if ((target - fLo) * (target - fHi) > 0) {
+    return { value: Math.abs(fLo - target) < Math.abs(fHi - target) ? lo : hi, solved: false };
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const v = f(mid);
+    if (Math.abs(v - target) < RTP_EPSILON) return { value: mid, solved: true };
+    if ((v < target) === increasing) lo = mid;
+    else hi = mid;
+  }
+  return { value: (lo + hi) / 2, solved: true };
+}
+
+function withTuning(config: ProbabilityConfig, tuning: Partial<ProbabilityConfig['tuning']>): ProbabilityConfig {
+  return {
+    ...config,
+    firstPlane: { ...config.firstPlane },
+    tuning: { ...config.tuning, ...tuning },
+  };
+}
+
+function fmt(x: number): string {
+  return Number(x.toPrecision(6)).toString();
+}
+
+function pct(x: number, digits = 2): string {
+  return `${(x * 100).toFixed(digits)}%`;
+}
+
+function signedPct(x: number): string {
+  return `${x >= 0 ? '+' : ''}${(x * 100).toFixed(1)}%`;
+}
@@ -1,162 +1,788 @@
-import { SimulationResults } from './Simulation';
-import { TowerId } from './ProbabilityController';
+import { LadderSimulationResults, SimulationResults } from './Simulation';
+import { Histogram, SessionSimulationResults } from './SessionSimulation';
+import { BetType, RoundResolution, TowerId } from './ProbabilityController';
+import { FairCommitment, FairRound, VerificationResult } from './ProvablyFair';
+import { ProbabilityConfig, SIDE_BET_IDS, SideBetId } from './ProbabilityConfig';
+import { SIDE_BETS, SideBetSettlement } from './SideBets';
+import { BET_TYPES, COMBO_BETS } from './BetTypes';
+import { StakeAction } from './StakeLadder';
+import { ExactRtpResults, rtpConfidenceInterval } from './RtpCalculator';
+import { LedgerEntry } from './RoundLedger';
+import { SimulationBundle, SimulationProgress } from './SimulationProtocol';
+import { RandomSourceKind, isSeedDerived } from './RandomSource';
+import { Hud } from './Hud';
+
+/** Snapshot of the provably-fair state rendered by the fairness modal. */
+export interface FairnessView {
+  next: FairCommitment;
+  /** `wave` is set for ladder rounds: the last wave played. */
+  last: { round: FairRound; bet: BetType; resolution: RoundResolution; wave?: number } | null;
+}
+
+export interface FairnessHandlers {
+  onClientSeed(seed: string): FairCommitment;
+  onVerify(): VerificationResult | null;
+  /** Returns false when a replay cannot start right now (e.g. mid-round). */
+  onReplay(): boolean;
+}
+
+export interface SimulationHandlers {
+  /** Starts a run; a run still in progress should be cancelled by the handler. */
+  onRun(rounds: number): void;
+  onCancel(): void;
+}
+
+/** Live handle on an open simulation modal. */
+export interface SimulationView {
+  progress(p: SimulationProgress): void;
+  complete(bundle: SimulationBundle): void;
+  /** The run ended without results (cancelled or failed). */
+  stopped(reason: string): void;
+}
+
+export type LedgerFormat = 'csv' | 'json';
+
+export interface HistoryHandlers {
+  /** Returns false when a replay cannot start right now (e.g. mid-round). */
+  onReplay(entry: LedgerEntry): boolean;
+  /** Serialized ledger for the download button. */
+  onExport(format: LedgerFormat): string;
+}
 
 /**
- * Manages all DOM UI elements for Twin Towers Dodge.
+ * Manages the Twin Towers DOM UI on top of the shared Hud.
  * Communicates with Game.ts through callback registration and setter methods.
  */
-export class Ui {
-  private readonly el = <T extends HTMLElement = HTMLElement>(id: string): T => {
-    const e = document.getElementById(id) as T | null;
-    if (!e) throw new Error(`UI: #${id} not found`);
-    return e;
-  };
-
+export class Ui extends Hud {
   // ── Element references ───────────────────────────────────────────────────
-  private readonly elBalance    = this.el('balance-val');
   private readonly elSeed       = this.el('seed-val');
-  private readonly elState      = this.el('state-val');
-  private readonly elMessage    = this.el('message-val');
+  private readonly elStake      = this.el('stake-val');
+  private readonly elBetPayout  = this.el('bet-payout-val');
+  private readonly elBetRtp     = this.el('bet-rtp-val');
   private readonly elTowerA     = this.el<HTMLButtonElement>('tower-a');
   private readonly elTowerB     = this.el<HTMLButtonElement>('tower-b');
   private readonly elPlay       = this.el<HTMLButtonElement>('btn-play');
   private readonly elSim        = this.el<HTMLButtonElement>('btn-sim');
-  private readonly elPopup      = this.el('popup-overlay');
-  private readonly elPopupIcon  = this.el('popup-icon');
-  private readonly elPopupTitle = this.el('popup-title');
-  private readonly elPopupSub   = this.el('popup-subtitle');
-  private readonly elPopupAmt   = this.el('popup-amount');
-  private readonly elPopupBtn   = this.el<HTMLButtonElement>('popup-btn');
-  private readonly elFlash      = this.el('flash');
+  private readonly elFair       = this.el<HTMLButtonElement>('btn-fair');
+  private readonly elHistory    = this.el<HTMLButtonElement>('btn-history');
+  private readonly elLadder     = this.el<HTMLButtonElement>('btn-ladder');
+  private readonly elCashOut    = this.el<HTMLButtonElement>('btn-cashout');
+  private readonly stakeBtns    = [...document.querySelectorAll<HTMLButtonElement>('.stake-btn')];
+  private readonly sideBtns     = [...document.querySelectorAll<HTMLButtonElement>('.side-bet-btn')];
+  private readonly comboBtns    = [...document.querySelectorAll<HTMLButtonElement>('.combo-btn')];
 
-  private _selected: TowerId = 'A';
+  private _selected: BetType = 'A';
+  private stakeEnabled = true;
+  private ladderMode = false;
 
   constructor() {
+    super();
     this.applyTowerSelection();
   }
 
   // ── Event bindings ───────────────────────────────────────────────────────
 
-  onTowerSelect(cb: (tower: TowerId) => void): void {
-    this.elTowerA.addEventListener('click', () => {
-      this._selected = 'A';
-      this.applyTowerSelection();
-      cb('A');
-    });
-    this.elTowerB.addEventListener('click', () => {
-      this._selected = 'B';
+  /** Tower buttons and combination-bet buttons share one selection. */
+  onBetSelect(cb: (bet: BetType) => void): void {
+    const bind = (btn: HTMLButtonElement, bet: BetType) => this.listen(btn, 'click', () => {
+      this._selected = bet;
       this.applyTowerSelection();
-      cb('B');
+      cb(bet);
     });
+    bind(this.elTowerA, 'A');
+    bind(this.elTowerB, 'B');
+    for (const btn of this.comboBtns) bind(btn, btn.dataset.bet as BetType);
   }
 
   onPlay(cb: () => void): void {
-    this.elPlay.addEventListener('click', cb);
+    this.listen(this.elPlay, 'click', cb);
   }
 
   onSim(cb: () => void): void {
-    this.elSim.addEventListener('click', cb);
+    this.listen(this.elSim, 'click', cb);
+  }
+
+  onStake(cb: (action: StakeAction) => void): void {
+    for (const btn of this.stakeBtns) {
+      this.listen(btn, 'click', () => cb(btn.dataset.stake as StakeAction));
+    }
+  }
+
+  onSideBetToggle(cb: (id: SideBetId) => void): void {
+    for (const btn of this.sideBtns) {
+      this.listen(btn, 'click', () => cb(btn.dataset.side as SideBetId));
+    }
+  }
+
+  /** Fires from the 🔐 control button and from the popup's "verify round" link. */
+  onFair(cb: () => void): void {
+    this.listen(this.elFair, 'click', cb);
+    this.listen(this.elPopupFair, 'click', cb);
+  }
+
+  onLadderToggle(cb: () => void): void {
+    this.listen(this.elLadder, 'click', cb);
+  }
+
+  onCashOut(cb: () => void): void {
+    this.listen(this.elCashOut, 'click', cb);
+  }
+
+  onHistory(cb: () => void): void {
+    this.listen(this.elHistory, 'click', cb);
   }
 
   // ── HUD setters ──────────────────────────────────────────────────────────
 
-  setBalance(v: number): void    { this.elBalance.textContent = v.toFixed(0); }
   setSeed(hex: string): void     { this.elSeed.textContent = hex.slice(0, 8); }
-  setState(s: string): void      { this.elState.textContent = s; }
-  setMessage(msg: string): void  { this.elMessage.textContent = msg; }
 
   setPlayEnabled(on: boolean): void { this.elPlay.disabled = !on; }
 
+  /** Fills the model-wide part of the bet row. */
+  setModel(config: ProbabilityConfig): void {
+    this.elBetRtp.textContent = `${(config.targetRtp * 100).toFixed(0)}%`;
+  }
+
+  /** Shows the chosen stake and what it returns on a win. */
+  setStake(stake: number, payout: number, bounds: { atMin: boolean; atMax: boolean }): void {
+    this.elStake.textContent     = `${stake} FUN`;
+    this.elBetPayout.textContent = `${formatAmount(payout)} FUN (×${formatAmount(payout / stake)})`;
+    for (const btn of this.stakeBtns) {
+      const down = btn.dataset.stake === 'min' || btn.dataset.stake === 'half' || btn.dataset.stake === 'down';
+      btn.dataset.bound = String(down ? bounds.atMin : bounds.atMax);
+    }
+    this.applyStakeEnabled();
+  }
+
+  /**
+   * Side-bet chips: which are placed and their return multiple.
+   * A multiple of 0 means the event cannot happen under the model.
+   */
+  setSideBets(placed: ReadonlySet<SideBetId>, multipliers: Record<SideBetId, number>): void {
+    for (const btn of this.sideBtns) {
+      const id = btn.dataset.side as SideBetId;
+      btn.classList.toggle('on', placed.has(id));
+      btn.dataset.bound = String(multipliers[id] <= 0);
+      btn.querySelector('.odds')!.textContent = multipliers[id] > 0 ? `×${formatAmount(round2(multipliers[id]))}` : '–';
+    }
+    this.applyStakeEnabled();
+  }
+
+  /** Stake and side-bet changes are only allowed while betting. */
+  setStakeEnabled(on: boolean): void {
+    this.stakeEnabled = on;
+    this.applyStakeEnabled();
+  }
+
   setPlayLabel(label: string): void { this.elPlay.textContent = label; }
 
-  get selectedTower(): TowerId { return this._selected; }
+  /** Return multiple of each combination bet; a multiple of 0 disables the button. */
+  setBetOdds(multipliers: Record<BetType, number>): void {
+    for (const btn of this.comboBtns) {
+      const m = multipliers[btn.dataset.bet as BetType];
+      btn.dataset.bound = String(m <= 0);
+      btn.querySelector('.odds')!.textContent = m > 0 ? `×${formatAmount(round2(m))}` : '–';
+    }
+    this.applyStakeEnabled();
+  }
+
+  /** Programmatic bet selection (e.g. ladder mode forcing a tower bet). */
+  selectBet(bet: BetType): void {
+    this._selected = bet;
+    this.applyTowerSelection();
+  }
 
-  // ── Flash effect ─────────────────────────────────────────────────────────
+  /** Ladder mode only takes tower bets: combination and side bets are locked. */
+  setLadderMode(on: boolean): void {
+    this.ladderMode = on;
+    this.elLadder.classList.toggle('on', on);
+    this.elLadder.textContent = `🪜 LADDER MODE · ${on ? 'ON' : 'OFF'}`;
+    this.applyStakeEnabled();
+  }
 
-  flash(type: 'win-flash' | 'lose-flash' | 'surprise-flash'): void {
-    this.elFlash.className = '';
-    void this.elFlash.offsetWidth; // force reflow to restart animation
-    this.elFlash.className = type;
+  /** Shows the cash-out button with the current pot, or hides it (null). */
+  setCashOut(pot: number | null): void {
+    this.elCashOut.classList.toggle('visible', pot !== null);
+    if (pot !== null) this.elCashOut.textContent = `💰 CASH OUT · ${formatAmount(round2(pot))} FUN`;
   }
 
+  get selectedBet(): BetType { return this._selected; }
+
   // ── Round result popup ───────────────────────────────────────────────────
 
-  showRoundPopup(win: boolean, returned: number, onClose: () => void): void {
-    this.elPopupIcon.textContent  = win ? '🏆' : '💥';
-    this.elPopupTitle.textContent = win ? 'Tower Survived!' : 'Tower Destroyed!';
-    this.elPopupSub.textContent   = win
-      ? `Your chosen tower made it through. 2× returned.`
-      : `Your tower was destroyed. Bet lost.`;
-    this.elPopupAmt.textContent   = win ? `+${returned.toFixed(0)} FUN` : '−10 FUN';
-    this.elPopupAmt.className     = win ? 'win' : 'lose';
-    this.elPopupBtn.textContent   = '▶ PLAY AGAIN';
-    this.elPopupBtn.className     = win ? 'win' : 'lose';
-
-    this.elPopup.classList.add('visible');
-
-    const handler = () => {
-      this.elPopupBtn.removeEventListener('click', handler);
-      this.elPopup.classList.remove('visible');
-      onClose();
-    };
-    this.elPopupBtn.addEventListener('click', handler);
+  showRoundPopup(
+    bet: BetType,
+    resolution: RoundResolution,
+    returned: number,
+    stake: number,
+    onClose: () => void,
+    sideBets: SideBetSettlement[] = [],
+  ): void {
+    const win = resolution.selectedTowerWins;
+    const wording = popupWording(bet, resolution.survives, win);
+    this.showPopup({
+      icon: win ? '🏆' : '💥',
+      title: wording.title,
+      subtitle: win
+        ? `${wording.detail} ${formatAmount(round2(returned / stake))}× returned.`
+        : `${wording.detail} Bet lost.`,
+      amount: win ? `+${formatAmount(round2(returned))} FUN` : `−${formatAmount(stake)} FUN`,
+      win,
+      sideHtml: sideBets.map((b) => {
+        const def = SIDE_BETS[b.id];
+        return b.won
+          ? `<span class="won">${def.icon} ${def.label} +${formatAmount(round2(b.payout))} FUN</span>`
+          : `<span class="lost">${def.icon} ${def.label} −${formatAmount(b.stake)} FUN</span>`;
+      }).join('<br>'),
+      verifiable: true,
+    }, onClose);
+  }
+
+  /** Result of a ladder-mode round: cashed out after `waves` waves, or lost on wave `waves`. */
+  showLadderPopup(
+    result: { tower: TowerId; cashedOut: boolean; waves: number; returned: number; stake: number },
+    onClose: () => void,
+  ): void {
+    const { tower, cashedOut, waves, returned, stake } = result;
+    this.showPopup({
+      icon: cashedOut ? '💰' : '💥',
+      title: cashedOut ? 'Cashed Out!' : `Destroyed on Wave ${waves}!`,
+      subtitle: cashedOut
+        ? `Tower ${tower} survived ${waves} wave${waves === 1 ? '' : 's'}. ${formatAmount(round2(returned / stake))}× returned.`
+        : `Tower ${tower} fell with the pot on the table. Bet lost.`,
+      amount: cashedOut ? `+${formatAmount(round2(returned))} FUN` : `−${formatAmount(stake)} FUN`,
+      win: cashedOut,
+      verifiable: true,
+    }, onClose);
   }
 
   // ── Simulation modal ─────────────────────────────────────────────────────
 
-  showSimulation(r: SimulationResults): void {
-    const netPerRound = (r.winRate * r.rounds * 20 - r.rounds * 10) / r.rounds;
+  /**
+   * Simulated results side by side with the exact analytic values,
+   * plus the deviation and a 95% confidence interval on the simulated RTP.
+   *
+   * The modal only renders: runs happen elsewhere (the simulation worker)
+   * and are fed back through the returned view as they progress.
+   */
+  showSimulation(
+    exact: ExactRtpResults,
+    config: ProbabilityConfig,
+    handlers: SimulationHandlers,
+  ): SimulationView {
+    const modal = document.createElement('div');
+    modal.className = 'sim-modal';
+    modal.innerHTML = `
+      <div class="sim-card">
+        <h3>📊 RTP Simulation</h3>
+        <div class="session-tabs">
+          ${SIMULATION_ROUNDS.map((n) => `<button data-rounds="${n}">${roundsLabel(n)}</button>`).join('')}
+        </div>
+        <div class="sim-progress"><div class="sim-progress-bar" id="sim-bar"></div></div>
+        <div class="sim-status" id="sim-status"></div>
+        <div id="sim-results"></div>
+        <button id="cancel-sim">Cancel</button>
+        <button id="close-sim">Close</button>
+      </div>
+    `;
+
+    const q = <T extends HTMLElement>(sel: string) => modal.querySelector<T>(sel)!;
+    const bar = q('#sim-bar');
+    const status = q('#sim-status');
+    const results = q('#sim-results');
+    const cancel = q<HTMLButtonElement>('#cancel-sim');
+    const picks = [...modal.querySelectorAll<HTMLButtonElement>('[data-rounds]')];
+
+    const setRunning = (running: boolean) => {
+      cancel.disabled = !running;
+      modal.classList.toggle('running', running);
+    };
+    const start = (rounds: number) => {
+      picks.forEach((b) => b.classList.toggle('active', Number(b.dataset.rounds) === rounds));
+      bar.style.width = '0%';
+      status.textContent = `Simulating ${roundsLabel(rounds)} rounds…`;
+      setRunning(true);
+      handlers.onRun(rounds);
+    };
+    picks.forEach((b) => b.addEventListener('click', () => start(Number(b.dataset.rounds))));
+    cancel.addEventListener('click', () => handlers.onCancel());
+    q('#close-sim').addEventListener('click', () => {
+      handlers.onCancel();
+      modal.remove();
+    });
+    document.body.appendChild(modal);
+    start(SIMULATION_ROUNDS[0]);
+
+    return {
+      progress: (p) => {
+        bar.style.width = pct(p.done / p.total, 1);
+        if (p.phase === 'rounds') {
+          status.textContent = `${p.done.toLocaleString('en-US')} / ${p.total.toLocaleString('en-US')} rounds`;
+          results.innerHTML = simulationTables(p.partial, exact, config);
+        } else {
+          status.textContent = `${p.phase === 'ladder' ? 'Ladder strategies' : 'Strategy sessions'} · ${p.done} / ${p.total}`;
+        }
+      },
+      complete: (bundle) => {
+        bar.style.width = '100%';
+        status.textContent = `${bundle.rounds.rounds.toLocaleString('en-US')} rounds`;
+        results.innerHTML = simulationTables(bundle.rounds, exact, config, bundle.ladder, bundle.sessions);
+        bindSessionTabs(results, bundle.sessions);
+        setRunning(false);
+      },
+      stopped: (reason) => {
+        status.textContent = reason;
+        setRunning(false);
+      },
+    };
+  }
+
+  // ── Provably-fair modal ──────────────────────────────────────────────────
+
+  showFairness(view: FairnessView, handlers: FairnessHandlers): void {
+    const last = view.last;
+    const replayable = last !== null && isSeedDerived(last.round.rng);
 
     const modal = document.createElement('div');
     modal.className = 'sim-modal';
     modal.innerHTML = `
       <div class="sim-card">
-        <h3>📊 RTP Simulation · ${(r.rounds / 1000).toFixed(0)}k rounds</h3>
+        <h3>🔐 Provably Fair</h3>
+        <div class="fair-section">Next round</div>
         <div class="sim-row">
-          <span class="key">Effective RTP</span>
-          <span class="val rtp">${(r.effectiveRtp * 100).toFixed(2)}%</span>
+          <span class="key">Server seed hash</span>
+          <span class="val mono" data-fair="hash"></span>
         </div>
         <div class="sim-row">
-          <span class="key">Win rate</span>
-          <span class="val">${(r.winRate * 100).toFixed(2)}%</span>
+          <span class="key">Nonce · RNG backend</span>
+          <span class="val" data-fair="nonce"></span>
         </div>
-        <div class="sim-row">
-          <span class="key">Avg net / round</span>
-          <span class="val">${netPerRound >= 0 ? '+' : ''}${netPerRound.toFixed(3)} FUN</span>
+        <div class="fair-seed-row">
+          <input id="fair-client-seed" maxlength="64" spellcheck="false" />
+          <button id="fair-save-seed">Set seed</button>
         </div>
+        ${last ? `
+        <div class="fair-section">Last round · ${BET_TYPES[last.bet].label}${last.wave ? ` · wave ${last.wave}` : ''}</div>
         <div class="sim-row">
-          <span class="key">Hit Tower A</span>
-          <span class="val">${(r.hitA * 100).toFixed(2)}%</span>
+          <span class="key">Server seed</span>
+          <span class="val mono">${last.round.serverSeed}</span>
         </div>
         <div class="sim-row">
-          <span class="key">Hit Tower B</span>
-          <span class="val">${(r.hitB * 100).toFixed(2)}%</span>
+          <span class="key">Committed hash</span>
+          <span class="val mono">${last.round.serverSeedHash}</span>
         </div>
         <div class="sim-row">
-          <span class="key">Plane miss</span>
-          <span class="val">${(r.miss * 100).toFixed(2)}%</span>
+          <span class="key">Client seed · nonce</span>
+          <span class="val mono">${escapeHtml(last.round.clientSeed)} · ${last.round.nonce}</span>
         </div>
         <div class="sim-row">
-          <span class="key">Double-plane events</span>
-          <span class="val">${(r.doublePlane * 100).toFixed(2)}%</span>
+          <span class="key">RNG backend</span>
+          <span class="val">${last.round.rng}</span>
         </div>
         <div class="sim-row">
-          <span class="key">Self-collapse events</span>
-          <span class="val">${(r.collapse * 100).toFixed(2)}%</span>
+          <span class="key">Animated outcome</span>
+          <span class="val">${describeResolution(last.resolution)}</span>
         </div>
-        <button id="close-sim">Close</button>
+        ${replayable ? `
+        <button id="fair-verify">Verify round</button>
+        <button id="fair-replay">▶ Replay round</button>
+        <div class="fair-result" id="fair-result"></div>` : `
+        <div class="fair-result bad">${notSeedDerived(last.round.rng)}</div>`}
+        ` : `
+        <div class="fair-section">No round played yet</div>
+        `}
+        <button id="close-fair">Close</button>
+      </div>
+    `;
+
+    const q = <T extends HTMLElement>(sel: string) => modal.querySelector<T>(sel)!;
+    const input = q<HTMLInputElement>('#fair-client-seed');
+
+    const renderNext = (next: FairCommitment) => {
+      q('[data-fair="hash"]').textContent  = next.serverSeedHash;
+      q('[data-fair="nonce"]').textContent = `${next.nonce} · ${next.rng}`;
+      input.value = next.clientSeed;
+    };
+    renderNext(view.next);
+
+    q<HTMLButtonElement>('#fair-save-seed')
+      .addEventListener('click', () => renderNext(handlers.onClientSeed(input.value)));
+
+    if (replayable) {
+      q<HTMLButtonElement>('#fair-verify').addEventListener('click', () => {
+        const out = q('#fair-result');
+        const r = handlers.onVerify();
+        if (!r) return;
+        const ok = r.hashValid && r.resolutionMatches;
+        out.className = `fair-result ${ok ? 'ok' : 'bad'}`;
+        out.textContent =
+          `${r.hashValid ? '✓' : '✗'} hash  ·  ${r.resolutionMatches ? '✓' : '✗'} outcome (${describeResolution(r.replayed)})`;
+      });
+
+      q<HTMLButtonElement>('#fair-replay').addEventListener('click', () => {
+        if (handlers.onReplay()) {
+          modal.remove();
+        } else {
+          const out = q('#fair-result');
+          out.className = 'fair-result bad';
+          out.textContent = 'Finish the current round to replay.';
+        }
+      });
+    }
+
+    q<HTMLButtonElement>('#close-fair').addEventListener('click', () => modal.remove());
+    document.body.appendChild(modal);
+  }
+
+  // ── Round history panel ──────────────────────────────────────────────────
+
+  /** Scrollable ledger, newest first. Tapping a row shows its seeds and a replay button. */
+  showHistory(entries: readonly LedgerEntry[], handlers: HistoryHandlers): void {
+    const modal = document.createElement('div');
+    modal.className = 'sim-modal';
+    modal.innerHTML = `
+      <div class="sim-card">
+        <h3>📜 Round History · ${entries.length}</h3>
+        <div class="history-legend">💥 hit · 💨 miss · ✈️ double plane · 🧱 collapse</div>
+        <div class="history-list">
+          ${entries.length === 0 ? '<div class="fair-section">No round played yet</div>' : ''}
+          ${[...entries].reverse().map((e) => `
+          <button class="history-row ${e.resolution.selectedTowerWins ? 'win' : 'lose'}" data-id="${e.id}">
+            <span class="history-id">#${e.id}</span>
+            <span class="history-tower">${BET_TYPES[e.bet].short}</span>
+            <span class="history-icons">${eventIcons(e.resolution)}</span>
+            <span class="history-amt">${signed(round2(e.balanceAfter - e.balanceBefore), 0)}</span>
+          </button>`).join('')}
+        </div>
+        <div class="history-detail" id="history-detail"></div>
+        <div class="history-export">
+          <button data-export="csv" ${entries.length === 0 ? 'disabled' : ''}>⬇ CSV</button>
+          <button data-export="json" ${entries.length === 0 ? 'disabled' : ''}>⬇ JSON</button>
+        </div>
+        <button id="close-history">Close</button>
       </div>
     `;
 
-    modal.querySelector<HTMLButtonElement>('#close-sim')!
-      .addEventListener('click', () => modal.remove());
+    const q = <T extends HTMLElement>(sel: string) => modal.querySelector<T>(sel)!;
+    const detail = q('#history-detail');
+
+    const showDetail = (e: LedgerEntry) => {
+      detail.innerHTML = `
+        <div class="fair-section">Round #${e.id} · ${new Date(e.timestamp).toLocaleString()}</div>
+        <div class="sim-row">
+          <span class="key">${BET_TYPES[e.bet].label}${e.waves ? ` · ladder, ${e.waves} wave${e.waves === 1 ? '' : 's'}` : ''} · stake ${formatAmount(e.stake)}</span>
+          <span class="val">${describeResolution(e.resolution)}</span>
+        </div>
+        ${e.sideBets.length > 0 ? `
+        <div class="sim-row">
+          <span class="key">Side bets</span>
+          <span class="val">${e.sideBets.map((b) => `${SIDE_BETS[b.id].icon} ${b.won ? `+${formatAmount(round2(b.payout))}` : `−${formatAmount(b.stake)}`}`).join(' · ')}</span>
+        </div>` : ''}
+        <div class="sim-row">
+          <span class="key">Balance</span>
+          <span class="val">${formatAmount(e.balanceBefore)} → ${formatAmount(e.balanceAfter)}</span>
+        </div>
+        <div class="sim-row">
+          <span class="key">Server seed</span>
+          <span class="val mono">${e.round.serverSeed}</span>
+        </div>
+        <div class="sim-row">
+          <span class="key">Client seed · nonce · RNG</span>
+          <span class="val mono">${escapeHtml(e.round.clientSeed)} · ${e.round.nonce} · ${e.round.rng}</span>
+        </div>
+        ${isSeedDerived(e.round.rng) ? `
+        <button id="history-replay">▶ Re-animate round</button>
+        <div class="fair-result" id="history-result"></div>` : `
+        <div class="fair-result bad">${notSeedDerived(e.round.rng)}</div>`}
+      `;
+      detail.querySelector<HTMLButtonElement>('#history-replay')?.addEventListener('click', () => {
+        if (handlers.onReplay(e)) {
+          modal.remove();
+        } else {
+          const out = q('#history-result');
+          out.className = 'fair-result bad';
+          out.textContent = 'Finish the current round to replay.';
+        }
+      });
+    };
+
+    for (const row of modal.querySelectorAll<HTMLButtonElement>('.history-row')) {
+      row.addEventListener('click', () => {
+        const entry = entries.find((e) => e.id === Number(row.dataset.id));
+        if (!entry) return;
+        for (const r of modal.querySelectorAll('.history-row')) r.classList.toggle('active', r === row);
+        showDetail(entry);
+      });
+    }
+
+    for (const btn of modal.querySelectorAll<HTMLButtonElement>('[data-export]')) {
+      btn.addEventListener('click', () => {
+        const format = btn.dataset.export as LedgerFormat;
+        download(`two-towers-history.${format}`, handlers.onExport(format),
+          format === 'csv' ? 'text/csv' : 'application/json');
+      });
+    }
+
+    q<HTMLButtonElement>('#close-history').addEventListener('click', () => modal.remove());
     document.body.appendChild(modal);
   }
 
+  // ── Teardown ─────────────────────────────────────────────────────────────
+
+  /** Also closes any open simulation / fairness / history modal. */
+  destroy(): void {
+    super.destroy();
+    for (const modal of document.querySelectorAll('.sim-modal')) modal.remove();
+  }
+
   // ── Private helpers ──────────────────────────────────────────────────────
 
+  private applyStakeEnabled(): void {
+    for (const btn of this.stakeBtns) {
+      btn.disabled = !this.stakeEnabled || btn.dataset.bound === 'true';
+    }
+    for (const btn of this.sideBtns) {
+      btn.disabled = !this.stakeEnabled || this.ladderMode || btn.dataset.bound === 'true';
+    }
+    // Tower buttons stay live (Game ignores them mid-round); combos lock in ladder mode
+    for (const btn of this.comboBtns) {
+      btn.disabled = this.ladderMode || btn.dataset.bound === 'true';
+    }
+    this.elLadder.disabled = !this.stakeEnabled;
+  }
+
   private applyTowerSelection(): void {
     this.elTowerA.classList.toggle('selected', this._selected === 'A');
     this.elTowerB.classList.toggle('selected', this._selected === 'B');
+    for (const btn of this.comboBtns) btn.classList.toggle('selected', btn.dataset.bet === this._selected);
   }
 }
+
+/** Popup title + explanation for how the round settled the player's bet. */
+function popupWording(
+  bet: BetType,
+  survives: Record<TowerId, boolean>,
+  win: boolean,
+): { title: string; detail: string } {
+  const standing = (['A', 'B'] as TowerId[]).filter((t) => survives[t]);
+  const outcome =
+    standing.length === 2 ? 'Both towers survived.'
+      : standing.length === 0 ? 'Both towers were destroyed.'
+        : `Only Tower ${standing[0]} is still standing.`;
+
+  switch (bet) {
+    case 'A':
+    case 'B':
+      return win
+        ? { title: 'Tower Survived!', detail: 'Your chosen tower made it through.' }
+        : { title: 'Tower Destroyed!', detail: 'Your tower was destroyed.' };
+    case 'both':
+      return win
+        ? { title: 'Both Towers Survived!', detail: 'Not a scratch on either tower.' }
+        : { title: standing.length === 0 ? 'Both Towers Fell!' : 'A Tower Fell!', detail: outcome };
+    case 'neither':
+      return win
+        ? { title: 'Total Destruction!', detail: 'Both towers went down.' }
+        : { title: standing.length === 2 ? 'Both Towers Survived!' : 'A Tower Survived!', detail: outcome };
+    case 'one':
+      return win
+        ? { title: `Tower ${standing[0]} Stands Alone!`, detail: 'Exactly one tower made it.' }
+        : { title: standing.length === 2 ? 'Both Towers Survived!' : 'Both Towers Fell!', detail: outcome };
+  }
+}
+
+function describeResolution(r: RoundResolution): string {
+  const plane = (o: string) => (o === 'miss' ? 'miss' : `hit ${o.slice(-1)}`);
+  const parts = [plane(r.firstPlane)];
+  if (r.secondPlane) parts.push(`2nd ${plane(r.secondPlane)}`);
+  if (r.collapsedTower) parts.push(`collapse ${r.collapsedTower}`);
+  return parts.join(' · ');
+}
+
+/** Per-event icons in play order: plane(s) then collapse. */
+function eventIcons(r: RoundResolution): string {
+  const plane = (o: string) => (o === 'miss' ? '💨' : '💥');
+  let out = plane(r.firstPlane);
+  if (r.secondPlane) out += `✈️${plane(r.secondPlane)}`;
+  if (r.collapsedTower) out += '🧱';
+  return out;
+}
+
+function download(filename: string, data: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Run sizes offered by the simulation modal; the first starts on open. */
+const SIMULATION_ROUNDS = [200_000, 1_000_000, 10_000_000];
+
+/** Result rows of the simulation modal; ladder and session sections only once they exist. */
+function simulationTables(
+  r: SimulationResults,
+  exact: ExactRtpResults,
+  config: ProbabilityConfig,
+  ladder: LadderSimulationResults[] = [],
+  sessions: SessionSimulationResults[] = [],
+): string {
+  const ci = rtpConfidenceInterval(r.winRate, r.rounds, config);
+  const exactInCi = exact.rtp >= ci.low && exact.rtp <= ci.high;
+  const exactNet = exact.winProbability * config.payoutOnWin - config.bet;
+  return `
+        <div class="sim-row cols head">
+          <span class="key">${escapeHtml(config.label)}</span>
+          <span class="val">Sim</span>
+          <span class="val">Exact</span>
+          <span class="val">Δ</span>
+        </div>
+        ${compareRow('Effective RTP', r.effectiveRtp, exact.rtp, 'rtp')}
+        ${compareRow('Win rate', r.winRate, exact.winProbability)}
+        <div class="sim-row cols">
+          <span class="key">Avg net / round</span>
+          <span class="val">${signed(r.netPerRound, 3)}</span>
+          <span class="val exact">${signed(exactNet, 3)}</span>
+          <span class="val delta">${signed(r.netPerRound - exactNet, 3)}</span>
+        </div>
+        ${compareRow('Hit Tower A', r.hitA, exact.hitA)}
+        ${compareRow('Hit Tower B', r.hitB, exact.hitB)}
+        ${compareRow('Plane miss', r.miss, exact.miss)}
+        ${compareRow('Double-plane events', r.doublePlane, exact.doublePlane)}
+        ${compareRow('Self-collapse events', r.collapse, exact.collapse)}
+        <div class="sim-row">
+          <span class="key">RTP 95% CI</span>
+          <span class="val">${pct(ci.low)} – ${pct(ci.high)}</span>
+        </div>
+        <div class="sim-row">
+          <span class="key">Exact RTP in CI · target ${pct(config.targetRtp, 0)}</span>
+          <span class="val ${exactInCi ? 'ok' : 'bad'}">${exactInCi ? '✓ yes' : '✗ no'}</span>
+        </div>
+        <div class="fair-section">Combination bets · RTP at unit stake</div>
+        ${COMBO_BETS.map((bet) => compareRow(BET_TYPES[bet].label, r.comboBets[bet].rtp, config.targetRtp)).join('')}
+        <div class="fair-section">Side bets · RTP at unit stake</div>
+        ${SIDE_BET_IDS.map((id) => compareRow(
+          `${SIDE_BETS[id].icon} ${SIDE_BETS[id].label}`,
+          r.sideBets[id].rtp,
+          config.sideBetRtp[id],
+        )).join('')}
+        ${ladder.length > 0 ? `
+        <div class="fair-section">Ladder cash-out strategies · avg waves</div>
+        ${ladder.map((l) => compareRow(
+          `${escapeHtml(l.strategy)} · ${l.avgWaves.toFixed(2)}`,
+          l.rtp,
+          config.targetRtp,
+        )).join('')}` : ''}
+        ${sessions.length > 0 ? `
+        <div class="fair-section">Strategy sessions · ${sessions[0].sessions} × from ${formatAmount(sessions[0].startingBalance)} FUN</div>
+        <div class="session-tabs">
+          ${sessions.map((x, i) => `<button data-session="${i}">${escapeHtml(x.label)}</button>`).join('')}
+        </div>
+        <div id="session-view"></div>` : ''}`;
+}
+
+/** Wires the strategy tabs rendered by simulationTables and opens the first one. */
+function bindSessionTabs(root: HTMLElement, sessions: SessionSimulationResults[]): void {
+  const view = root.querySelector<HTMLElement>('#session-view');
+  const tabs = [...root.querySelectorAll<HTMLButtonElement>('[data-session]')];
+  const show = (i: number) => {
+    tabs.forEach((t, j) => t.classList.toggle('active', i === j));
+    if (view) view.innerHTML = sessionView(sessions[i]);
+  };
+  tabs.forEach((t, i) => t.addEventListener('click', () => show(i)));
+  if (sessions.length > 0) show(0);
+}
+
+/** 200000 → "200k", 10000000 → "10M". */
+function roundsLabel(n: number): string {
+  return n >= 1_000_000 ? `${n / 1_000_000}M` : `${n / 1000}k`;
+}
+
+/** Stats rows plus bankroll-curve and final-balance charts for one strategy. */
+function sessionView(r: SessionSimulationResults): string {
+  const f = r.finalBalance;
+  const row = (key: string, val: string) => `
+        <div class="sim-row"><span class="key">${key}</span><span class="val">${val}</span></div>`;
+  return `
+        ${row('Bust probability', pct(r.bustProbability))}
+        ${row('Median session length', `${formatAmount(r.medianLength)} rounds`)}
+        ${row('Final balance p5 · p50 · p95', `${f.p5.toFixed(0)} · ${f.p50.toFixed(0)} · ${f.p95.toFixed(0)}`)}
+        ${row('Mean final balance', r.meanFinalBalance.toFixed(1))}
+        ${row('Max drawdown median · worst', `${r.maxDrawdown.median.toFixed(0)} · ${r.maxDrawdown.worst.toFixed(0)}`)}
+        <div class="chart-title">Sample bankroll curves</div>
+        ${bankrollChart(r.samples, r.startingBalance)}
+        <div class="chart-title">Final balance distribution</div>
+        ${histogramChart(r.histogram)}`;
+}
+
+const CHART_W = 400;
+const CHART_H = 110;
+const CURVE_COLORS = ['#a78bfa', '#4ade80', '#fbbf24', '#f472b6', '#60a5fa', '#f87171'];
+
+/** Inline SVG: one polyline per session, dashed line at the starting balance. */
+function bankrollChart(curves: number[][], start: number): string {
+  const maxLen = Math.max(2, ...curves.map((c) => c.length));
+  const values = curves.flat().concat(start);
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const span = hi - lo || 1;
+  const x = (i: number) => (i / (maxLen - 1)) * CHART_W;
+  const y = (v: number) => CHART_H - ((v - lo) / span) * CHART_H;
+
+  const lines = curves.map((c, i) => `<polyline fill="none" stroke="${CURVE_COLORS[i % CURVE_COLORS.length]}"
+    stroke-width="1.5" points="${c.map((v, j) => `${x(j).toFixed(1)},${y(v).toFixed(1)}`).join(' ')}" />`);
+  return `
+        <svg class="chart" viewBox="0 0 ${CHART_W} ${CHART_H}" preserveAspectRatio="none">
+          <line x1="0" x2="${CHART_W}" y1="${y(start)}" y2="${y(start)}" class="chart-base" />
+          ${lines.join('')}
+        </svg>
+        <div class="chart-axis"><span>${lo.toFixed(0)}</span><span>${hi.toFixed(0)}</span></div>`;
+}
+
+function histogramChart(h: Histogram): string {
+  const peak = Math.max(1, ...h.counts);
+  const w = CHART_W / h.counts.length;
+  const bars = h.counts.map((c, i) => {
+    const bh = (c / peak) * CHART_H;
+    return `<rect x="${(i * w + 1).toFixed(1)}" y="${(CHART_H - bh).toFixed(1)}" width="${(w - 2).toFixed(1)}" height="${bh.toFixed(1)}" />`;
+  });
+  return `
+        <svg class="chart histogram" viewBox="0 0 ${CHART_W} ${CHART_H}" preserveAspectRatio="none">${bars.join('')}</svg>
+        <div class="chart-axis"><span>${h.edges[0].toFixed(0)}</span><span>${h.edges[h.edges.length - 1].toFixed(0)}</span></div>`;
+}
+
+function compareRow(label: string, sim: number, exact: number, cls = ''): string {
+  const delta = (sim - exact) * 100;
+  return `
+        <div class="sim-row cols">
+          <span class="key">${label}</span>
+          <span class="val ${cls}">${pct(sim)}</span>
+          <span class="val exact">${pct(exact)}</span>
+          <span class="val delta">${delta >= 0 ? '+' : ''}${delta.toFixed(2)}</span>
+        </div>`;
+}
+
+function pct(x: number, digits = 2): string {
+  return `${(x * 100).toFixed(digits)}%`;
+}
+
+function signed(x: number, digits: number): string {
+  return `${x >= 0 ? '+' : ''}${x.toFixed(digits)}`;
+}
+
+function round2(x: number): number {
+  return Math.round(x * 100) / 100;
+}
+
+function formatAmount(x: number): string {
+  return Number.isInteger(x) ? x.toFixed(0) : x.toFixed(2);
+}
+
+function notSeedDerived(kind: RandomSourceKind): string {
+  return `Drawn from the ${kind} backend, not from the seeds: this round cannot be verified or replayed.`;
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
@@ -0,0 +1,250 @@
+/**
+ * Persistent player wallet: balance, rounds played and provably-fair seed
+ * state survive reloads. Storage sits behind WalletStore so localStorage can
+ * be swapped for an in-memory (tests) or IndexedDB implementation.
+ */
+
+/** Raw persistence backend. Async so IndexedDB-style stores fit the same shape. */
+export interface WalletStore {
+  load(): Promise<string | null>;
+  save(data: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class LocalStorageWalletStore implements WalletStore {
+  private readonly key: string;
+
+  constructor(key = 'two-towers.wallet') {
+    this.key = key;
+  }
+
+  async load(): Promise<string | null> { return window.localStorage.getItem(this.key); }
+  async save(data: string): Promise<void> { window.localStorage.setItem(this.key, data); }
+  async clear(): Promise<void> { window.localStorage.removeItem(this.key); }
+}
+
+export class MemoryWalletStore implements WalletStore {
+  private data: string | null;
+
+  constructor(data: string | null = null) {
+    this.data = data;
+  }
+
+  async load(): Promise<string | null> { return this.data; }
+  async save(data: string): Promise<void> { this.data = data; }
+  async clear(): Promise<void> { this.data = null; }
+}
+
+/** Current on-disk shape. Bump WALLET_VERSION and add a migration when it changes. */
+export interface WalletSnapshot {
+  version: typeof WALLET_VERSION;
+  balance: number;
+  roundsPlayed: number;
+  /** Provably-fair seed state; the server seed is never stored and is re-committed on boot. */
+  clientSeed: string | null;
+  nonce: number;
+  /** Local calendar day (YYYY-MM-DD) of the last daily top-up. */
+  lastTopUpDay: string | null;
+}
+
+export const WALLET_VERSION = 1;
+export const STARTING_BALANCE = 1000;
+
+/**
+ * Upgrades from version N to N+1. Version 0 is the unversioned
+ * `{ balance }` shape; anything older than that is treated as corrupted.
+ */
+const MIGRATIONS: Record<number, (old: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (old) => ({
+    version: 1,
+    balance: old.balance,
+    roundsPlayed: 0,
+    clientSeed: null,
+    nonce: 0,
+    lastTopUpDay: null,
+  }),
+};
+
+export interface WalletOptions {
+  startingBalance?: number;
+  /** Balance granted once per calendar day to a player below `minStake`. */
+  dailyTopUp?: number;
+  minStake?: number;
+  now?: () => Date;
+}
+
+export class Wallet {
+  private data: WalletSnapshot;
+  private readonly store: WalletStore;
+  private readonly startingBalance: number;
+  private readonly dailyTopUp: number;
+  private readonly minStake: number;
+  private readonly now: () => Date;
+
+  private constructor(store: WalletStore, data: WalletSnapshot, opts: WalletOptions) {
+    this.store = store;
+    this.data = data;
+    this.startingBalance = opts.startingBalance ?? STARTING_BALANCE;
+    this.dailyTopUp = opts.dailyTopUp ?? this.startingBalance;
+    this.minStake = opts.minStake ?? 1;
+    this.now = opts.now ?? (() => new Date());
+  }
+
+  /**
+   * Loads the wallet from `store`, migrating older snapshots.
+   * Unreadable data is replaced by a fresh wallet and reported via `notice`.
+   */
+  static async open(
+    store: WalletStore,
+    opts: WalletOptions = {},
+  ): Promise<{ wallet: Wallet; notice: string | null }> {
+    const fresh = freshSnapshot(opts.startingBalance ?? STARTING_BALANCE);
+    let raw: string | null = null;
+    try {
+      raw = await store.load();
+    } catch (err) {
+      console.warn('Wallet: store could not be read', err);
+    }
+
+    let data = fresh;
+    let notice: string | null = null;
+    if (raw !== null) {
+      try {
+        data = parseSnapshot(raw);
+      } catch (err) {
+        console.warn('Wallet: discarding unreadable save', err);
+        notice = 'Saved wallet was unreadable – started a fresh one.';
+      }
+    }
+
+    // Re-save right away so migrated / repaired data is written in the current format
+    const wallet = new Wallet(store, data, opts);
+    wallet.persist();
+    return { wallet, notice };
+  }
+
+  get balance(): number { return this.data.balance; }
+  get roundsPlayed(): number { return this.data.roundsPlayed; }
+  get clientSeed(): string | null { return this.data.clientSeed; }
+  get nonce(): number { return this.data.nonce; }
+
+  /** Takes a stake off the balance; false (and no change) if it does not cover it. */
+  debit(amount: number): boolean {
+    if (amount > this.data.balance) return false;
+    this.data.balance = round2(this.data.balance - amount);
+    this.persist();
+    return true;
+  }
+
+  credit(amount: number): void {
+    this.data.balance = round2(this.data.balance + amount);
+    this.persist();
+  }
+
+  /** Records a started round and the seed state the next round will use. */
+  recordRound(seed: { clientSeed: string; nonce: number }): void {
+    this.data.roundsPlayed++;
+    this.data.clientSeed = seed.clientSeed;
+    this.data.nonce = seed.nonce;
+    this.persist();
+  }
+
+  setClientSeed(clientSeed: string): void {
+    this.data.clientSeed = clientSeed;
+    this.persist();
+  }
+
+  /** True when the balance cannot cover the smallest stake. */
+  get isBust(): boolean { return this.data.balance < this.minStake; }
+
+  /**
+   * Tops a bust player back up to `dailyTopUp`, at most once per local
+   * calendar day. Returns the amount granted (0 when not eligible).
+   */
+  claimDailyTopUp(): number {
+    const today = dayKey(this.now());
+    if (!this.isBust || this.data.lastTopUpDay === today) return 0;
+
+    const granted = round2(this.dailyTopUp - this.data.balance);
+    this.data.balance = this.dailyTopUp;
+    this.data.lastTopUpDay = today;
+    this.persist();
+    return granted;
+  }
+
+  /** Back to a brand-new wallet. Seed state is reset too. */
+  reset(): void {
+    this.data = freshSnapshot(this.startingBalance);
+    this.persist();
+  }
+
+  snapshot(): WalletSnapshot {
+    return { ...this.data };
+  }
+
+  private persist(): void {
+    this.store.save(JSON.stringify(this.data)).catch((err) => {
+      console.warn('Wallet: save failed', err);
+    });
+  }
+}
+
+// ── Snapshot parsing ─────────────────────────────────────────────────────────
+
+function parseSnapshot(raw: string): WalletSnapshot {
+  const obj = JSON.parse(raw) as unknown;
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    throw new Error('Wallet: snapshot is not an object');
+  }
+
+  let rec = obj as Record<string, unknown>;
+  let version = rec.version === undefined ? 0 : rec.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0 || version > WALLET_VERSION) {
+    throw new Error(`Wallet: unsupported snapshot version ${String(rec.version)}`);
+  }
+  while (version < WALLET_VERSION) {
+    rec = MIGRATIONS[version](rec);
+    version++;
+  }
+
+  const { balance, roundsPlayed, clientSeed, nonce, lastTopUpDay } = rec;
+  if (typeof balance !== 'number' || !Number.isFinite(balance) || balance < 0) {
+    throw new Error('Wallet: invalid balance');
+  }
+  if (!isCount(roundsPlayed) || !isCount(nonce)) {
+    throw new Error('Wallet: invalid round counters');
+  }
+  if (clientSeed !== null && typeof clientSeed !== 'string') {
+    throw new Error('Wallet: invalid client seed');
+  }
+  if (lastTopUpDay !== null && typeof lastTopUpDay !== 'string') {
+    throw new Error('Wallet: invalid top-up day');
+  }
+
+  return { version: WALLET_VERSION, balance, roundsPlayed, clientSeed, nonce, lastTopUpDay };
+}
+
+function freshSnapshot(balance: number): WalletSnapshot {
+  return {
+    version: WALLET_VERSION,
+    balance,
+    roundsPlayed: 0,
+    clientSeed: null,
+    nonce: 0,
+    lastTopUpDay: null,
+  };
+}
+
+function isCount(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0;
+}
+
+function dayKey(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+function round2(x: number): number {
+  return parseFloat(x.toFixed(2));
+}
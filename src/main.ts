@@ -1,15 +1,112 @@
 /// <reference types="vite/client" />
 
 import { Game } from './Game';
+import { CardGame } from './CardGame';
+import { CardPack, loadCardPacks } from './CardPack';
+import { GameMode } from './GameMode';
+import { ModeRouter } from './ModeRouter';
+import { DEFAULT_PROBABILITY_CONFIG, PROBABILITY_CONFIGS, ProbabilityConfig } from './ProbabilityConfig';
+import { LocalStorageWalletStore, Wallet } from './Wallet';
+import { RandomBackend, createRandomBackend } from './RandomBackend';
+import { RANDOM_SOURCE_KINDS, RandomSourceKind } from './RandomSource';
 
 // Prevent all native scrolling and gestures
 document.addEventListener('gesturestart', (e) => e.preventDefault());
 document.addEventListener('gesturechange', (e) => e.preventDefault());
 document.addEventListener('gestureend', (e) => e.preventDefault());
 
+// Probability model: ?model=<id> picks a bundled variant (see src/configs).
+// Like scripted outcomes, a QA switch: production builds play the default.
+function resolveModel(): ProbabilityConfig {
+  const id = new URLSearchParams(window.location.search).get('model');
+  if (id === null) return DEFAULT_PROBABILITY_CONFIG;
+  if (import.meta.env.PROD) {
+    console.warn(`?model= is disabled in production builds; using "${DEFAULT_PROBABILITY_CONFIG.id}"`);
+    return DEFAULT_PROBABILITY_CONFIG;
+  }
+  const config = PROBABILITY_CONFIGS[id];
+  if (!config) {
+    console.warn(`Unknown model "${id}", using "${DEFAULT_PROBABILITY_CONFIG.id}"`);
+    return DEFAULT_PROBABILITY_CONFIG;
+  }
+  return config;
+}
+
+// Outcome RNG backend: ?rng=<kind> (see RandomSource.ts); scripted also takes
+// ?script=0.1,0.95,... – the next() values to play back, looping. Scripted
+// outcomes are QA-only, like the debug console: production builds refuse them.
+function resolveRandomBackend(): RandomBackend {
+  const params = new URLSearchParams(window.location.search);
+  const kind = params.get('rng');
+  if (kind === null) return createRandomBackend('mulberry32');
+  if (!RANDOM_SOURCE_KINDS.includes(kind as RandomSourceKind)) {
+    console.warn(`Unknown RNG backend "${kind}", using "mulberry32"`);
+    return createRandomBackend('mulberry32');
+  }
+  if (kind === 'scripted' && import.meta.env.PROD) {
+    console.warn('The scripted RNG backend is disabled in production builds; using "mulberry32"');
+    return createRandomBackend('mulberry32');
+  }
+  const script = params.get('script')?.split(',').map(Number);
+  try {
+    return createRandomBackend(kind as RandomSourceKind, { script });
+  } catch (err) {
+    console.warn(`${(err as Error).message}; using "mulberry32"`);
+    return createRandomBackend('mulberry32');
+  }
+}
+
+// Card packs: the classic pack plus whatever public/packs/index.json lists,
+// fetched each time Scroll Doom opens. ?pack=<id> picks the one to start with;
+// the list is rotated so the in-game switch still cycles in manifest order.
+async function resolveCardPacks(): Promise<CardPack[]> {
+  const packs = await loadCardPacks();
+  const id = new URLSearchParams(window.location.search).get('pack');
+  if (id === null) return packs;
+  const i = packs.findIndex((p) => p.id === id);
+  if (i < 0) {
+    console.warn(`Unknown card pack "${id}", using "${packs[0].id}"`);
+    return packs;
+  }
+  return [...packs.slice(i), ...packs.slice(0, i)];
+}
+
+// Game mode: ?mode=towers|cards (see GameMode.ts), otherwise the picker.
+// Both modes play from the one wallet; each switch builds a fresh instance.
+async function boot(): Promise<void> {
+  const config = resolveModel();
+  const { wallet, notice } = await Wallet.open(new LocalStorageWalletStore(), {
+    minStake: config.stakeLadder[0],
+  });
+  const router = new ModeRouter({
+    towers: async () => {
+      const game = new Game(wallet, config, resolveRandomBackend());
+      return import.meta.env.PROD ? game : installDebugConsole(game);
+    },
+    cards: async () => new CardGame(wallet, await resolveCardPacks(), resolveRandomBackend()),
+  }, notice);
+  await router.start();
+}
+
+// QA forced outcomes (dev builds only): Ctrl+Shift+D, or ?debug to open at boot.
+// The console goes away with the game it drives.
+async function installDebugConsole(game: Game): Promise<GameMode> {
+  const { DebugConsole } = await import('./DebugConsole');
+  const debug = new DebugConsole(game);
+  if (new URLSearchParams(window.location.search).has('debug')) debug.toggle();
+  return {
+    notify: (message) => game.notify(message),
+    requestLeave: () => game.requestLeave(),
+    destroy: () => {
+      debug.destroy();
+      game.destroy();
+    },
+  };
+}
+
 // Boot the game once DOM is ready
 if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', () => new Game());
+  document.addEventListener('DOMContentLoaded', () => void boot());
 } else {
-  new Game();
+  void boot();
 }
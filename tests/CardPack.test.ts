@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CARD_PACK, loadCardPacks, parseCardPack } from '../src/CardPack';
+import { DEFAULT_CARD_ANIMATION, SAFE_CARDS, pickSafeCard, safeCardOdds } from '../src/Card';
+import manifest from '../public/packs/index.json';
+import holiday from '../public/packs/holiday.json';
+import sports from '../public/packs/sports.json';
+
+const card = (overrides: Record<string, unknown> = {}) => ({
+  kind: 'snowman',
+  emoji: '⛄',
+  title: 'Snowman',
+  subtitle: '#winter',
+  gradient: ['#83a4d4', '#b6fbff'],
+  accentColor: '#e0f2fe',
+  weight: 10,
+  ...overrides,
+});
+
+describe('parseCardPack', () => {
+  it('accepts the bundled packs and the classic pack as JSON', () => {
+    expect(manifest.packs).toEqual(['holiday.json', 'sports.json']);
+    for (const raw of [holiday, sports]) {
+      const pack = parseCardPack(raw);
+      expect(pack.cards.every((c) => !c.isBomb && c.weight > 0)).toBe(true);
+    }
+    const plain = SAFE_CARDS.filter((c) => !c.effect);
+    expect(parseCardPack(JSON.parse(JSON.stringify({ ...DEFAULT_CARD_PACK, cards: plain })))).toEqual(DEFAULT_CARD_PACK);
+  });
+
+  it('deals the classic special cards at their classic odds in every pack', () => {
+    const specials = SAFE_CARDS.filter((c) => c.effect);
+    for (const raw of [holiday, sports, { id: 'one', cards: [card({ weight: 0.5 })] }]) {
+      const pack = parseCardPack(raw);
+      for (const special of specials) {
+        const dealt = pack.cards.find((c) => c.kind === special.kind)!;
+        expect(safeCardOdds(dealt, pack.cards)).toBeCloseTo(safeCardOdds(special), 12);
+      }
+      expect(pack.cards.filter((c) => c.effect)).toHaveLength(specials.length);
+    }
+  });
+
+  it('fills in the optional fields', () => {
+    const pack = parseCardPack({ id: 'winter', cards: [card()] });
+    expect(pack.label).toBe('winter');
+    expect(pack.cards[0]).toMatchObject({ rarity: 'common', isBomb: false, animation: DEFAULT_CARD_ANIMATION });
+    expect(pack.cards[0].effect).toBeUndefined();
+  });
+
+  it('lists every problem in one error', () => {
+    const raw = {
+      id: 'broken',
+      cards: [
+        card({ gradient: ['#fff'], weight: 0, effect: 'boost' }),
+        card({ animation: { motion: [{ property: 'scale', speed: 2, amplitude: 3 }], overlay: { type: 'stamp' } } }),
+      ],
+    };
+    expect(() => parseCardPack(raw)).toThrow(
+      'CardPack "broken" is invalid:\n'
+      + '  - cards[0].gradient: expected two colours, e.g. ["#ff6b6b", "#ee0979"]\n'
+      + '  - cards[0].effect: not allowed; the special cards are built in\n'
+      + '  - cards[0].weight: must be > 0, got 0\n'
+      + '  - cards[1].animation.motion[0].amplitude: must be ≤ 0.5, got 3\n'
+      + '  - cards[1].animation.overlay.text: expected a non-empty string\n'
+      + '  - cards[1].animation.overlay.color: expected a #rrggbb colour, got undefined\n'
+      + '  - cards[1].kind: duplicate "snowman"',
+    );
+  });
+
+  it('rejects a card that claims the bomb or a special card id, and an empty pack', () => {
+    expect(() => parseCardPack({ id: 'p', cards: [card({ kind: 'bomb' })] })).toThrow('"bomb" is reserved');
+    expect(() => parseCardPack({ id: 'p', cards: [card({ kind: 'shield' })] })).toThrow('"shield" is reserved for a special card');
+    expect(() => parseCardPack({ id: 'p', cards: [] })).toThrow('cards: expected a non-empty array');
+  });
+
+  it('deals a pack by its own weights', () => {
+    const pack = parseCardPack({ id: 'p', cards: [card({ kind: 'a', weight: 3 }), card({ kind: 'b', weight: 1 })] });
+    const [a, b] = pack.cards;
+    expect(safeCardOdds(a, pack.cards) / safeCardOdds(b, pack.cards)).toBeCloseTo(3, 12);
+    expect(pickSafeCard(0.5, pack.cards).kind).toBe('a');
+    expect(pickSafeCard(0.8, pack.cards).kind).toBe('b');
+  });
+});
+
+describe('loadCardPacks', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const serve = (files: Record<string, unknown>) => {
+    const fetch = vi.fn(async (url: string) => url in files
+      ? new Response(JSON.stringify(files[url]))
+      : new Response('', { status: 404 }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  };
+
+  it('loads the listed packs after the classic one and skips broken ones', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    serve({
+      'packs/index.json': { packs: ['holiday.json', 'broken.json', 'missing.json', 'https://cdn.example/sports.json'] },
+      'packs/holiday.json': holiday,
+      'packs/broken.json': { id: 'broken', cards: [card({ weight: -1 })] },
+      'https://cdn.example/sports.json': sports,
+    });
+
+    const packs = await loadCardPacks();
+
+    expect(packs.map((p) => p.id)).toEqual(['classic', 'holiday', 'sports']);
+    const warnings = warn.mock.calls.map(([message]) => String(message)).sort();
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain('skipping broken.json: CardPack "broken" is invalid');
+    expect(warnings[1]).toContain('skipping missing.json: packs/missing.json: HTTP 404');
+    warn.mockRestore();
+  });
+
+  it('falls back to the classic pack without a manifest', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    serve({});
+    expect(await loadCardPacks()).toEqual([DEFAULT_CARD_PACK]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { SAFE_CARDS, safeCardOdds } from '../src/Card';
+import { ScriptedSource } from '../src/RandomSource';
+import {
+  RIDE_TO_BOMB,
+  cardSimulationMarkdown,
+  cashOutAfterCards,
+  parseCardPolicy,
+  simulateCardPolicies,
+  simulateCardPolicy,
+} from '../src/CardSimulation';
+
+describe('CardSimulation', () => {
+  it('matches the closed form for a one-card cash-out without streaks', () => {
+    // P(bomb on card 1) = 0.30·0.25 + 0.50·0.14 + 0.20·0.08 = 0.161
+    const odds = (effect: string) => SAFE_CARDS.filter((c) => c.effect === effect).reduce((p, c) => p + safeCardOdds(c), 0);
+    const boost = odds('boost');
+    const tax = odds('tax');
+    const r = simulateCardPolicy(cashOutAfterCards(1), { rounds: 100_000, streaks: false });
+    const exact = (1 - 0.161) * (boost * 1.21 + tax * 0.8 + (1 - boost - tax) * 1.1);
+    expect(Math.abs(r.rtp - exact)).toBeLessThan(r.rtpHalfWidth);
+    expect(r.cashOutRate).toBeCloseTo(0.839, 2);
+  });
+
+  it('is deterministic per seed', () => {
+    const a = simulateCardPolicy(parseCardPolicy('random:0.3'), { rounds: 2_000, seed: 7 });
+    const b = simulateCardPolicy(parseCardPolicy('random:0.3'), { rounds: 2_000, seed: 7 });
+    expect(a).toEqual(b);
+  });
+
+  it('accounts every round as a cash-out or a bomb', () => {
+    // Without effects no shield can stretch a round past the cash-out card
+    const r = simulateCardPolicy(parseCardPolicy('cards:4'), { rounds: 5_000, effects: false });
+    const bombed = r.bombIndex.reduce((sum, x) => sum + x, 0);
+    expect(r.cashOutRate + bombed).toBeCloseTo(1, 10);
+    expect(r.bombIndex.slice(4).every((x) => x === 0)).toBe(true);
+  });
+
+  it('asks the policy again after a shield blocks a bomb', () => {
+    const shield = SAFE_CARDS.findIndex((c) => c.effect === 'shield');
+    const before = SAFE_CARDS.slice(0, shield).reduce((sum, c) => sum + safeCardOdds(c), 0);
+    // run type medium, no bomb, the shield card, then a bomb (the script ends there)
+    const rng = new ScriptedSource([0.5, 0.9, before + safeCardOdds(SAFE_CARDS[shield]) / 2, 0.1]);
+    const r = simulateCardPolicy(cashOutAfterCards(2), { rounds: 1, streaks: false, rng });
+
+    expect(r.shieldSaves).toBe(1);
+    expect(r.cashOutRate).toBe(1);
+    expect(r.avgCards).toBe(2);
+    expect(r.rtp).toBeCloseTo(1.1, 10);
+  });
+
+  it('reports the streak shift per policy and the bomb index table', () => {
+    const [ride] = simulateCardPolicies({ rounds: 2_000 }, [RIDE_TO_BOMB]);
+    expect(ride.withStreaks.rtp).toBe(0);
+    expect(ride.withStreaks.streakMercy).toBeGreaterThan(0.99);
+    expect(ride.withoutStreaks.streakMercy).toBe(0);
+    expect(ride.withStreaks.shieldSaves).toBeGreaterThan(0);
+    expect(cardSimulationMarkdown([ride])).toContain('## Bomb index (no cash-outs)');
+  });
+
+  it('rejects malformed policy specs', () => {
+    for (const spec of ['cards:0', 'cards:1.5', 'mult:1', 'random:0', 'random:2', 'always']) {
+      expect(() => parseCardPolicy(spec), spec).toThrow(/bad policy/);
+    }
+    expect(parseCardPolicy('mult:2').shouldCashOut(8, 2.1436, null!)).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Rng } from '../src/Rng';
+import { HmacSha256Source, RandomSource } from '../src/RandomSource';
+import { ProbabilityController } from '../src/ProbabilityController';
+import { deriveRoundSeed, resolveFairRound, resolveFairWave } from '../src/ProvablyFair';
+import { replayRound } from '../src/RoundReplay';
+
+function draws(rng: RandomSource, n: number): number[] {
+  return Array.from({ length: n }, () => rng.next());
+}
+
+const SEEDS = { serverSeed: 'a1'.repeat(32), clientSeed: 'c0ffee', nonce: 7 };
+
+describe('seed determinism', () => {
+  it('Mulberry32 repeats its stream for a seed', () => {
+    expect(draws(new Rng(0xdeadbeef), 100)).toEqual(draws(new Rng(0xdeadbeef), 100));
+    expect(draws(new Rng(1), 10)).not.toEqual(draws(new Rng(2), 10));
+  });
+
+  it('Mulberry32 matches its reference output', () => {
+    expect(draws(new Rng(1), 3).map((v) => Math.floor(v * 2 ** 32))).toEqual(
+      [2693262067, 11749833, 2265367787],
+    );
+  });
+
+  it('child streams do not advance or depend on the parent position', () => {
+    const parent = new Rng(5);
+    const before = draws(parent.derive(3), 5);
+    const next = parent.next();
+    expect(draws(parent.derive(3), 5)).toEqual(before);
+    expect(new Rng(5).next()).toBe(next);
+  });
+
+  it('HMAC-SHA256 streams repeat for the same key and message', () => {
+    const a = new HmacSha256Source('key', 'client:0');
+    const b = new HmacSha256Source('key', 'client:0');
+    expect(draws(a, 20)).toEqual(draws(b, 20));
+    expect(draws(new HmacSha256Source('key', 'client:1'), 5)).not.toEqual(draws(a, 5));
+  });
+
+  it('a round seed depends on every input', () => {
+    const seed = deriveRoundSeed(SEEDS.serverSeed, SEEDS.clientSeed, SEEDS.nonce);
+    expect(deriveRoundSeed(SEEDS.serverSeed, SEEDS.clientSeed, SEEDS.nonce)).toBe(seed);
+    expect(deriveRoundSeed(SEEDS.serverSeed, SEEDS.clientSeed, SEEDS.nonce + 1)).not.toBe(seed);
+    expect(deriveRoundSeed(SEEDS.serverSeed, 'other', SEEDS.nonce)).not.toBe(seed);
+  });
+
+  for (const rng of ['mulberry32', 'hmac-sha256'] as const) {
+    it(`${rng}: live, fair and replayed resolutions agree`, () => {
+      for (let nonce = 0; nonce < 200; nonce++) {
+        const seeds = { ...SEEDS, nonce, rng };
+        const fair = resolveFairRound(seeds, 'A');
+        expect(resolveFairRound(seeds, 'A')).toEqual(fair);
+        expect(replayRound(seeds, nonce, 'A').resolution).toEqual(fair);
+        if (rng === 'mulberry32') {
+          const live = new ProbabilityController(new Rng(deriveRoundSeed(seeds.serverSeed, seeds.clientSeed, nonce)));
+          expect(live.resolveRound('A')).toEqual(fair);
+        }
+      }
+    });
+
+    it(`${rng}: ladder waves resolve the same in any order`, () => {
+      const seeds = { ...SEEDS, rng };
+      const forward = [1, 2, 3, 4].map((w) => resolveFairWave(seeds, 'B', w));
+      const backward = [4, 3, 2, 1].map((w) => resolveFairWave(seeds, 'B', w)).reverse();
+      expect(backward).toEqual(forward);
+    });
+  }
+
+  it('refuses to resolve rounds that are not seed-derived', () => {
+    expect(() => resolveFairRound({ ...SEEDS, rng: 'crypto' }, 'A')).toThrow(/not derived/);
+  });
+});
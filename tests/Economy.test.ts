@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { Economy } from '../src/Economy';
+import { MemoryWalletStore, Wallet } from '../src/Wallet';
+
+describe('Economy', () => {
+  it('charges the round cost on start', () => {
+    const economy = new Economy(100);
+    expect(economy.startRound()).toBe(true);
+    expect(economy.balance).toBe(90);
+    expect(economy.roundValue).toBe(10);
+    expect(economy.multiplier).toBe(1);
+  });
+
+  it('keeps a fractional balance at 2 decimals when charging a round', () => {
+    const economy = new Economy(10.3);
+    expect(economy.startRound()).toBe(true);
+    expect(economy.balance).toBe(0.3);
+  });
+
+  it('refuses to start a round the balance cannot cover', () => {
+    const economy = new Economy(9.99);
+    expect(economy.canStartRound()).toBe(false);
+    expect(economy.startRound()).toBe(false);
+    expect(economy.balance).toBe(9.99);
+  });
+
+  it('compounds the multiplier per safe swipe, rounded to 4 places', () => {
+    const economy = new Economy();
+    economy.startRound();
+    for (let i = 0; i < 5; i++) economy.onSafeSwipe();
+    expect(economy.swipeCount).toBe(5);
+    expect(economy.multiplier).toBe(1.6105);
+    expect(economy.roundValue).toBe(16.11);
+    expect(economy.formatMultiplier()).toBe('×1.61');
+    expect(economy.formatRoundValue()).toBe('16.11');
+  });
+
+  it('keeps the round value at 2 decimals over long streaks', () => {
+    const economy = new Economy();
+    economy.startRound();
+    for (let i = 1; i <= 40; i++) {
+      economy.onSafeSwipe();
+      expect(economy.multiplier).toBe(parseFloat((1.1 ** i).toFixed(4)));
+      expect(Number.isInteger(Math.round(economy.roundValue * 100))).toBe(true);
+      expect(economy.roundValue).toBeCloseTo(10 * economy.multiplier, 2);
+    }
+  });
+
+  it('cashes out the round value and resets it', () => {
+    const economy = new Economy(1000);
+    economy.startRound();
+    economy.onSafeSwipe();
+    economy.onSafeSwipe();
+    expect(economy.cashOut()).toBe(12.1);
+    expect(economy.balance).toBe(1002.1);
+    expect(economy.roundValue).toBe(0);
+  });
+
+  it('rounds the balance so cash-outs do not accumulate float drift', () => {
+    const economy = new Economy(10.3);
+    for (let i = 0; i < 3; i++) {
+      economy.startRound();
+      economy.onSafeSwipe();
+      economy.cashOut();
+    }
+    // 10.3 + 3 × (11 − 10)
+    expect(economy.balance).toBe(13.3);
+    expect(economy.formatBalance()).toBe('13');
+  });
+
+  it('forfeits the round value on a bomb', () => {
+    const economy = new Economy(100);
+    economy.startRound();
+    economy.onSafeSwipe();
+    economy.onBomb();
+    expect(economy.roundValue).toBe(0);
+    expect(economy.balance).toBe(90);
+  });
+
+  it('plays from a shared wallet when given one', async () => {
+    const { wallet } = await Wallet.open(new MemoryWalletStore());
+    const economy = new Economy(wallet);
+    economy.startRound();
+    economy.onSafeSwipe();
+    expect(wallet.balance).toBe(990);
+    economy.cashOut();
+    expect(wallet.balance).toBe(1001);
+    expect(economy.balance).toBe(wallet.balance);
+  });
+
+  it('counts a boost card as two steps and a tax card as a 20% shave', () => {
+    const economy = new Economy();
+    economy.startRound();
+    economy.onSafeSwipe('boost');
+    expect(economy.multiplier).toBe(1.21);
+    economy.onSafeSwipe('tax');
+    expect(economy.multiplier).toBe(0.968);
+    expect(economy.roundValue).toBe(9.68);
+    economy.onSafeSwipe();
+    expect(economy.multiplier).toBe(1.0648);
+    expect(economy.swipeCount).toBe(3);
+  });
+
+  it('lets a shield absorb exactly one bomb', () => {
+    const economy = new Economy();
+    economy.startRound();
+    economy.onSafeSwipe('shield');
+    economy.onSafeSwipe('shield');
+    expect(economy.shielded).toBe(true);
+
+    expect(economy.onBomb()).toBe(true);
+    expect(economy.roundValue).toBe(12.1);
+    expect(economy.swipeCount).toBe(3);
+    expect(economy.shielded).toBe(false);
+
+    expect(economy.onBomb()).toBe(false);
+    expect(economy.roundValue).toBe(0);
+  });
+
+  it('counts a blocked bomb as swiped but not as a safe card', () => {
+    const economy = new Economy();
+    economy.startRound();
+    economy.onSafeSwipe('shield');
+    expect(economy.onBomb()).toBe(true);
+    economy.onSafeSwipe();
+    expect(economy.onBomb()).toBe(false);
+
+    expect(economy.swipeCount).toBe(3);
+    expect(economy.safeCount).toBe(2);
+    expect(economy.blockedBombs).toBe(1);
+
+    economy.startRound();
+    expect(economy.blockedBombs).toBe(0);
+  });
+
+  it('drops an unused shield at the next round', () => {
+    const economy = new Economy();
+    economy.startRound();
+    economy.onSafeSwipe('shield');
+    economy.cashOut();
+    economy.startRound();
+    expect(economy.shielded).toBe(false);
+  });
+});
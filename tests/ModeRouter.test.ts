@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import page from '../index.html?raw';
+import { ModeRouter } from '../src/ModeRouter';
+import { GameMode, GameModeId } from '../src/GameMode';
+
+const $ = (id: string): HTMLElement => document.getElementById(id)!;
+
+function fakeMode(leave = true) {
+  return {
+    notify: vi.fn<(message: string) => void>(),
+    requestLeave: vi.fn(() => leave),
+    destroy: vi.fn(() => $('game-canvas').remove()),
+  } satisfies GameMode;
+}
+
+describe('ModeRouter', () => {
+  let modes: Record<GameModeId, ReturnType<typeof fakeMode>[]>;
+  let router: ModeRouter;
+
+  const start = (search: string, notice: string | null = null) => {
+    window.history.replaceState(null, '', `/${search}`);
+    router = new ModeRouter({
+      towers: () => { const m = fakeMode(); modes.towers.push(m); return m; },
+      cards: async () => { const m = fakeMode(); modes.cards.push(m); return m; },
+    }, notice);
+    return router.start();
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = new DOMParser().parseFromString(page, 'text/html').body.innerHTML;
+    delete document.body.dataset.mode;
+    modes = { towers: [], cards: [] };
+  });
+
+  it('opens the mode named in the URL and passes it the boot notice', async () => {
+    await start('?mode=cards&model=classic', 'Saved wallet was unreadable.');
+
+    expect(modes.cards).toHaveLength(1);
+    expect(modes.cards[0].notify).toHaveBeenCalledWith('Saved wallet was unreadable.');
+    expect(document.body.dataset.mode).toBe('cards');
+    expect($('mode-picker').classList.contains('visible')).toBe(false);
+    expect(window.location.search).toBe('?mode=cards&model=classic');
+  });
+
+  it('shows the picker for a missing or unknown mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await start('?mode=slots');
+
+    expect(warn).toHaveBeenCalledOnce();
+    expect($('mode-picker').classList.contains('visible')).toBe(true);
+    expect(window.location.search).toBe('');
+    expect($('mode-list').querySelectorAll('[data-mode]')).toHaveLength(2);
+    warn.mockRestore();
+  });
+
+  it('tears the old mode down and gives the next one a fresh canvas', async () => {
+    await start('?mode=towers');
+    $('btn-mode').click();
+
+    expect(modes.towers[0].destroy).toHaveBeenCalledOnce();
+    expect(document.getElementById('game-canvas')).toBeNull();
+    expect(document.body.dataset.mode).toBeUndefined();
+
+    await router.open('cards');
+    expect(modes.cards).toHaveLength(1);
+    expect($('app').firstElementChild?.id).toBe('game-canvas');
+    expect(window.location.search).toBe('?mode=cards');
+  });
+
+  it('stays put when the running mode refuses to leave', async () => {
+    await start('?mode=towers');
+    modes.towers[0].requestLeave.mockReturnValue(false);
+    $('btn-mode').click();
+
+    expect(modes.towers[0].destroy).not.toHaveBeenCalled();
+    expect(document.body.dataset.mode).toBe('towers');
+    expect($('mode-picker').classList.contains('visible')).toBe(false);
+  });
+});
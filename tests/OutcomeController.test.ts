@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { OutcomeController, RunType } from '../src/OutcomeController';
+import { Rng } from '../src/Rng';
+import { ScriptedSource } from '../src/RandomSource';
+
+/** A controller whose next round has the given run type. */
+function withRunType(runType: RunType): OutcomeController {
+  const draw = { short: 0.1, medium: 0.5, long: 0.9 }[runType];
+  const controller = new OutcomeController(new ScriptedSource([draw], { loop: true }));
+  controller.startRound();
+  return controller;
+}
+
+describe('OutcomeController', () => {
+  it('maps the run-type draw onto the 30 / 50 / 20 split', () => {
+    const cases: [number, RunType][] = [[0, 'short'], [0.2999, 'short'], [0.3, 'medium'], [0.7999, 'medium'], [0.8, 'long']];
+    for (const [draw, runType] of cases) {
+      const controller = new OutcomeController(new ScriptedSource([draw]));
+      controller.startRound();
+      expect(controller.currentRunType).toBe(runType);
+    }
+  });
+
+  it('starts at the base probability and grows per swipe', () => {
+    expect(withRunType('short').getBombProbability(0)).toBeCloseTo(0.25);
+    expect(withRunType('medium').getBombProbability(0)).toBeCloseTo(0.14);
+    expect(withRunType('medium').getBombProbability(2)).toBeCloseTo(0.20);
+    expect(withRunType('long').getBombProbability(4)).toBeCloseTo(0.14);
+  });
+
+  it('clamps the probability to [0.04, 0.30]', () => {
+    for (const runType of ['short', 'medium', 'long'] as RunType[]) {
+      for (const streak of ['losses', 'wins', 'none']) {
+        const controller = withRunType(runType);
+        for (let i = 0; i < 3; i++) {
+          if (streak === 'losses') controller.onRoundLost();
+          if (streak === 'wins') controller.onRoundWon();
+        }
+        for (let swipe = 0; swipe < 100; swipe++) {
+          const p = controller.getBombProbability(swipe);
+          expect(p).toBeGreaterThanOrEqual(0.04);
+          expect(p).toBeLessThanOrEqual(0.30);
+        }
+      }
+    }
+    expect(withRunType('short').getBombProbability(50)).toBe(0.30);
+  });
+
+  it('lowers the probability after 3 losses and raises it after 3 wins', () => {
+    const losing = withRunType('medium');
+    const winning = withRunType('medium');
+    for (let i = 0; i < 3; i++) {
+      losing.onRoundLost();
+      winning.onRoundWon();
+    }
+    expect(losing.getBombProbability(0)).toBeCloseTo(0.14 * 0.8);
+    expect(winning.getBombProbability(0)).toBeCloseTo(0.14 * 1.1);
+  });
+
+  it('resets the opposite streak', () => {
+    const controller = withRunType('medium');
+    for (let i = 0; i < 3; i++) controller.onRoundLost();
+    controller.onRoundWon();
+    expect(controller.getBombProbability(0)).toBeCloseTo(0.14);
+  });
+
+  it('draws bombs at roughly the stated probability', () => {
+    const controller = new OutcomeController(new Rng(7));
+    controller.startRound();
+    const p = controller.getBombProbability(1);
+    let bombs = 0;
+    const n = 50_000;
+    for (let i = 0; i < n; i++) if (controller.isBomb(1)) bombs++;
+    // 5 standard deviations
+    expect(Math.abs(bombs / n - p)).toBeLessThan(5 * Math.sqrt(p * (1 - p) / n));
+  });
+});
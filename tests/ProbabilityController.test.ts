@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BetType,
+  ProbabilityController,
+  RoundResolution,
+  TowerId,
+  betWins,
+  composeResolution,
+} from '../src/ProbabilityController';
+import { DEFAULT_PROBABILITY_CONFIG, PROBABILITY_CONFIGS } from '../src/ProbabilityConfig';
+import { Rng } from '../src/Rng';
+import { ScriptedSource } from '../src/RandomSource';
+
+const BETS: BetType[] = ['A', 'B', 'both', 'neither', 'one'];
+const TOWERS: TowerId[] = ['A', 'B'];
+
+function hits(r: RoundResolution, tower: TowerId): boolean {
+  const plane = tower === 'A' ? 'hitA' : 'hitB';
+  return r.firstPlane === plane || r.secondPlane === plane;
+}
+
+/** Every invariant a RoundResolution must hold, whatever was rolled. */
+function expectConsistent(r: RoundResolution, bet: BetType): void {
+  for (const t of TOWERS) {
+    expect(r.survives[t]).toBe(!r.destroyed[t]);
+    expect(r.destroyed[t]).toBe(hits(r, t) || r.collapsedTower === t);
+  }
+  expect(r.collapseTriggered).toBe(r.collapsedTower !== undefined);
+  if (r.collapsedTower) expect(r.destroyed[r.collapsedTower]).toBe(true);
+  expect(r.secondPlaneTriggered).toBe(r.secondPlane !== undefined);
+  if (r.secondPlaneTriggered) expect(r.firstPlane).toBe('miss');
+  expect(r.selectedTowerWins).toBe(betWins(bet, r.survives));
+}
+
+describe('ProbabilityController.resolveRound', () => {
+  for (const config of Object.values(PROBABILITY_CONFIGS)) {
+    it(`keeps every resolution consistent under "${config.id}"`, () => {
+      const rng = new Rng(0x1234);
+      for (let i = 0; i < 5000; i++) {
+        const bet = BETS[i % BETS.length];
+        expectConsistent(new ProbabilityController(rng, config).resolveRound(bet), bet);
+      }
+    });
+  }
+
+  it('reaches every event over many rounds', () => {
+    const controller = new ProbabilityController(new Rng(42));
+    const seen = new Set<string>();
+    for (let i = 0; i < 20_000; i++) {
+      const r = controller.resolveRound('A');
+      seen.add(`first:${r.firstPlane}`);
+      if (r.secondPlane) seen.add(`second:${r.secondPlane}`);
+      if (r.collapsedTower) seen.add(`collapse:${r.collapsedTower}`);
+    }
+    for (const key of [
+      'first:hitA', 'first:hitB', 'first:miss',
+      'second:hitA', 'second:hitB', 'second:miss',
+      'collapse:A', 'collapse:B',
+    ]) {
+      expect(seen).toContain(key);
+    }
+  });
+
+  it('rolls no second plane after a hit', () => {
+    // no collapse, first plane hits A; a second-plane draw would exhaust the script
+    const rng = new ScriptedSource([0.999, 0]);
+    const r = new ProbabilityController(rng).resolveRound('A');
+    expect(r.firstPlane).toBe('hitA');
+    expect(r.secondPlaneTriggered).toBe(false);
+    expect(rng.position).toBe(2);
+  });
+
+  it('rolls a second plane after a miss when the chance hits', () => {
+    // no collapse, first plane misses, second plane triggers and hits B
+    const config = DEFAULT_PROBABILITY_CONFIG;
+    const rng = new ScriptedSource([0.999, 0.999, config.doublePlaneOnMiss / 2, 0.5]);
+    const r = new ProbabilityController(rng, config).resolveRound('B');
+    expect(r.firstPlane).toBe('miss');
+    expect(r.secondPlaneTriggered).toBe(true);
+    expect(r.secondPlane).toBe('hitB');
+    expect(r.survives).toEqual({ A: true, B: false });
+    expect(r.selectedTowerWins).toBe(false);
+  });
+
+  it('collapse always destroys the collapsed tower', () => {
+    // collapse triggers on tower B, both planes miss
+    const r = new ProbabilityController(new ScriptedSource([0, 0.9, 0.999, 0.999])).resolveRound('B');
+    expect(r.collapseTriggered).toBe(true);
+    expect(r.collapsedTower).toBe('B');
+    expect(r.destroyed).toEqual({ A: false, B: true });
+    expect(r.selectedTowerWins).toBe(false);
+  });
+
+  it('rejects non-positive or fractional ladder waves', () => {
+    const controller = new ProbabilityController(new Rng(1));
+    expect(() => controller.resolveWave('A', 0)).toThrow(/positive integer/);
+    expect(() => controller.resolveWave('A', 1.5)).toThrow(/positive integer/);
+  });
+});
+
+describe('composeResolution', () => {
+  it('destroys a tower hit by either plane', () => {
+    const r = composeResolution('both', { firstPlane: 'miss', secondPlane: 'hitA' });
+    expect(r.destroyed).toEqual({ A: true, B: false });
+    expect(r.secondPlaneTriggered).toBe(true);
+    expect(r.selectedTowerWins).toBe(false);
+  });
+
+  it('settles combination bets on the towers that survive', () => {
+    const bothDown = composeResolution('neither', { firstPlane: 'hitA', collapsedTower: 'B' });
+    expect(bothDown.survives).toEqual({ A: false, B: false });
+    expect(bothDown.selectedTowerWins).toBe(true);
+    expect(composeResolution('one', { firstPlane: 'hitB' }).selectedTowerWins).toBe(true);
+    expect(composeResolution('both', { firstPlane: 'miss' }).selectedTowerWins).toBe(true);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { ReelEngine } from '../src/ReelEngine';
+import { BOMB_CARD, SAFE_CARDS, pickSafeCard, safeCardOdds } from '../src/Card';
+import { Rng } from '../src/Rng';
+import { ScriptedSource } from '../src/RandomSource';
+
+describe('pickSafeCard', () => {
+  it('maps [0, 1) across the safe cards by weight', () => {
+    expect(pickSafeCard(0)).toBe(SAFE_CARDS[0]);
+    expect(pickSafeCard(0.999999)).toBe(SAFE_CARDS[SAFE_CARDS.length - 1]);
+    let start = 0;
+    for (const card of SAFE_CARDS) {
+      const odds = safeCardOdds(card);
+      expect(pickSafeCard(start + odds / 2)).toBe(card);
+      start += odds;
+    }
+    expect(start).toBeCloseTo(1, 12);
+  });
+
+  it('makes legendary cards rarer than rare ones, and rare than common', () => {
+    const odds = (rarity: string) => Math.max(
+      ...SAFE_CARDS.filter((c) => c.rarity === rarity).map((c) => safeCardOdds(c)),
+    );
+    const minOdds = (rarity: string) => Math.min(
+      ...SAFE_CARDS.filter((c) => c.rarity === rarity).map((c) => safeCardOdds(c)),
+    );
+    expect(odds('legendary')).toBeLessThan(minOdds('rare'));
+    expect(odds('rare')).toBeLessThan(minOdds('common'));
+  });
+
+  it('never returns the bomb', () => {
+    expect(SAFE_CARDS.every((c) => !c.isBomb)).toBe(true);
+  });
+});
+
+describe('ReelEngine', () => {
+  it('returns the bomb when the bomb draw hits', () => {
+    // run type medium (p = 0.14), then a bomb draw below it
+    const reel = new ReelEngine(new ScriptedSource([0.5, 0.1]));
+    reel.startRound();
+    expect(reel.nextCard(0)).toBe(BOMB_CARD);
+  });
+
+  it('picks a safe card from the next draw when the bomb draw misses', () => {
+    const before = SAFE_CARDS.slice(0, 3).reduce((sum, c) => sum + safeCardOdds(c), 0);
+    const reel = new ReelEngine(new ScriptedSource([0.5, 0.9, before + safeCardOdds(SAFE_CARDS[3]) / 2]));
+    reel.startRound();
+    expect(reel.nextCard(0)).toBe(SAFE_CARDS[3]);
+  });
+
+  it('deals from the active pack after setPack', () => {
+    const holiday = { id: 'holiday', label: 'Holiday', cards: [{ ...SAFE_CARDS[0], kind: 'snowman' }] };
+    const reel = new ReelEngine(new ScriptedSource([0.5, 0.9, 0.5, 0.3]));
+    reel.setPack(holiday);
+    reel.startRound();
+    expect(reel.nextCard(0).kind).toBe('snowman');
+    expect(reel.safePick().kind).toBe('snowman');
+  });
+
+  it('draws a round from the source it is started with and keeps the streak', () => {
+    const reel = new ReelEngine(new ScriptedSource([0.5, 0.1], { loop: true }));
+    for (let i = 0; i < 3; i++) reel.onRoundLost();
+    const round = new ScriptedSource([0.5, 0.9, 0]);
+    reel.startRound(round);
+    expect(reel.nextCard(0)).toBe(SAFE_CARDS[0]);
+    expect(round.position).toBe(3);
+    expect(reel.controller.streakFactor).toBe(0.8);
+  });
+
+  it('safePick never rolls for a bomb', () => {
+    const rng = new ScriptedSource([0]);
+    expect(new ReelEngine(rng).safePick()).toBe(SAFE_CARDS[0]);
+    expect(rng.position).toBe(1);
+  });
+
+  it('deals the same cards for the same seed', () => {
+    const deal = (seed: number) => {
+      const reel = new ReelEngine(new Rng(seed));
+      const cards: string[] = [];
+      for (let round = 0; round < 50; round++) {
+        reel.startRound();
+        for (let swipe = 0; swipe < 20; swipe++) {
+          const card = reel.nextCard(swipe);
+          cards.push(card.kind);
+          if (card.isBomb) break;
+        }
+      }
+      return cards;
+    };
+    expect(deal(99)).toEqual(deal(99));
+    expect(deal(99)).not.toEqual(deal(100));
+  });
+});
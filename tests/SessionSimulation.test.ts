@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { MARTINGALE, StrategyDef, simulateSessions } from '../src/SessionSimulation';
+import { DEFAULT_PROBABILITY_CONFIG } from '../src/ProbabilityConfig';
+
+const config = DEFAULT_PROBABILITY_CONFIG;
+
+describe('simulateSessions', () => {
+  it('busts a session that cannot cover the requested stake instead of clamping it', () => {
+    const allIn: StrategyDef = {
+      id: 'stake-50',
+      label: 'Stake 50',
+      create: () => ({ pickTower: () => 'A', nextStake: () => 50 }),
+    };
+    const r = simulateSessions(allIn, config, { sessions: 200, startingBalance: 120, maxRounds: 50, seed: 3 });
+
+    // Even money: every round moves the balance by the full 50, never by a partial stake
+    for (const curve of r.samples) {
+      expect(curve.slice(1).every((b, i) => Math.abs(b - curve[i]) === 50)).toBe(true);
+    }
+    expect(r.bustProbability).toBeGreaterThan(0);
+    expect(r.finalBalance.p5).toBe(20);
+  });
+
+  it('steps the martingale through ladder rungs after losses', () => {
+    const player = MARTINGALE.create(config);
+    const lost = { round: 1, balance: 1000, startBalance: 1000, lastTower: 'A' as const, lastWin: false };
+    expect(player.nextStake({ ...lost, lastStake: 0, lastWin: null })).toBe(10);
+    expect([player.nextStake({ ...lost, lastStake: 10 }), player.nextStake({ ...lost, lastStake: 20 }),
+      player.nextStake({ ...lost, lastStake: 50 }), player.nextStake({ ...lost, lastStake: 100 })])
+      .toEqual([20, 50, 100, 100]);
+    expect(player.nextStake({ ...lost, lastStake: 100, lastWin: true })).toBe(10);
+  });
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SwipeGesture } from '../src/SwipeGesture';
+
+const EXTENT = 800; // commit distance: max(60, 0.18 × 800) = 144px
+
+describe('SwipeGesture', () => {
+  let blocked: boolean;
+  const handlers = {
+    onDrag: vi.fn<(offset: number) => void>(),
+    onCommit: vi.fn(),
+    onCancel: vi.fn(),
+    isBlocked: () => blocked,
+  };
+  let gesture: SwipeGesture;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    blocked = false;
+    gesture = new SwipeGesture(handlers);
+  });
+
+  it('follows the finger up and rubber-bands a downward pull', () => {
+    gesture.begin(500, 0, EXTENT);
+    gesture.move(440, 16);
+    gesture.move(550, 32);
+    expect(handlers.onDrag.mock.calls).toEqual([[-60], [10]]);
+  });
+
+  it('commits a slow drag past the distance threshold', () => {
+    gesture.begin(500, 0, EXTENT);
+    gesture.move(400, 500);
+    gesture.end(350, 1000);
+    expect(handlers.onCommit).toHaveBeenCalledOnce();
+    expect(handlers.onCancel).not.toHaveBeenCalled();
+  });
+
+  it('snaps back a slow drag short of the threshold', () => {
+    gesture.begin(500, 0, EXTENT);
+    gesture.move(420, 500);
+    gesture.end(400, 1000);
+    expect(handlers.onCommit).not.toHaveBeenCalled();
+    expect(handlers.onCancel).toHaveBeenCalledOnce();
+  });
+
+  it('commits a short fast flick, measuring speed over the last 100ms only', () => {
+    gesture.begin(500, 0, EXTENT);
+    gesture.move(498, 900);  // long hold first …
+    gesture.move(480, 950);
+    gesture.end(440, 1000);  // … then 58px in 100ms
+    expect(handlers.onCommit).toHaveBeenCalledOnce();
+  });
+
+  it('never commits a tap, however quick', () => {
+    gesture.begin(500, 0, EXTENT);
+    gesture.end(490, 5);
+    expect(handlers.onCommit).not.toHaveBeenCalled();
+    expect(handlers.onCancel).toHaveBeenCalledOnce();
+  });
+
+  it('ignores gestures while blocked', () => {
+    blocked = true;
+    expect(gesture.begin(500, 0, EXTENT)).toBe(false);
+    gesture.move(300, 100);
+    gesture.end(200, 200);
+    gesture.wheel(500, 300);
+    expect(handlers.onDrag).not.toHaveBeenCalled();
+    expect(handlers.onCommit).not.toHaveBeenCalled();
+  });
+
+  it('commits accumulated wheel delta once, then waits out the inertia', () => {
+    gesture.wheel(30, 0);
+    gesture.wheel(-10, 20); // an upward nudge takes back progress
+    gesture.wheel(35, 40);
+    expect(handlers.onCommit).not.toHaveBeenCalled();
+    gesture.wheel(10, 60);
+    expect(handlers.onCommit).toHaveBeenCalledOnce();
+
+    for (let t = 80; t < 500; t += 20) gesture.wheel(40, t);
+    expect(handlers.onCommit).toHaveBeenCalledOnce();
+    gesture.wheel(80, 520);
+    expect(handlers.onCommit).toHaveBeenCalledTimes(2);
+  });
+
+  it('starts the wheel count over after a pause', () => {
+    gesture.wheel(50, 0);
+    gesture.wheel(50, 300);
+    expect(handlers.onCommit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { formatTuningReport, solveTuning } from '../src/TuningSolver';
+import { DEFAULT_PROBABILITY_CONFIG, PROBABILITY_CONFIGS, effectiveCollapseChance } from '../src/ProbabilityConfig';
+import { computeExactRtp, planeOutcomeProbabilities } from '../src/RtpCalculator';
+
+const standard = DEFAULT_PROBABILITY_CONFIG;
+
+describe('solveTuning', () => {
+  it('hits the target exactly with the collapse knob alone when it can', () => {
+    const s = solveTuning(0.93, standard, { confirmRounds: 0 });
+
+    expect(computeExactRtp(s.config).rtp).toBeCloseTo(0.93, 10);
+    expect(s.config.targetRtp).toBe(0.93);
+    expect(s.changes.map((c) => c.knob)).toEqual(['collapseMultiplier']);
+    expect(s.config.tuning.hitWeightMultiplier).toBe(standard.tuning.hitWeightMultiplier);
+    expect(s.simulated).toBeNull();
+    expect(s.confirmed).toBeNull();
+  });
+
+  it('keeps collapse under its ceiling and moves the hit knob for the rest', () => {
+    const s = solveTuning(0.93, standard, { maxCollapseRate: 0.25, confirmRounds: 0 });
+
+    expect(computeExactRtp(s.config).rtp).toBeCloseTo(0.93, 10);
+    expect(effectiveCollapseChance(s.config)).toBeLessThanOrEqual(0.25 + 1e-12);
+    expect(s.changes.map((c) => c.knob)).toEqual(['collapseMultiplier', 'hitWeightMultiplier']);
+  });
+
+  it('lifts the miss rate to its floor before solving', () => {
+    const base = PROBABILITY_CONFIGS['rtp-95'];
+    expect(planeOutcomeProbabilities(base).miss).toBeLessThan(0.08);
+
+    const s = solveTuning(0.95, base, { minMissRate: 0.08, confirmRounds: 0 });
+
+    expect(computeExactRtp(s.config).rtp).toBeCloseTo(0.95, 10);
+    expect(planeOutcomeProbabilities(s.config).miss).toBeGreaterThanOrEqual(0.08 - 1e-9);
+  });
+
+  it('throws when the constraints make the target unreachable', () => {
+    expect(() => solveTuning(0.99, standard, { knobs: ['collapseMultiplier'], maxCollapseRate: 0.1, confirmRounds: 0 }))
+      .toThrow(/target RTP 99\.00% is unreachable with knobs \[collapseMultiplier\]/);
+    expect(() => solveTuning(2.5, standard, { confirmRounds: 0 })).toThrow(/target RTP must be in \(0, 2\)/);
+  });
+
+  it('confirms the exact RTP by simulation and reports it', () => {
+    const s = solveTuning(0.95, standard, { confirmRounds: 50_000 });
+
+    expect(s.simulated?.rounds).toBe(50_000);
+    expect(s.confirmed).toBe(true);
+    expect(formatTuningReport(s)).toMatch(/^Tuned config "standard@95\.00"\n {2}.*exact value inside the 95% CI$/s);
+  });
+});
@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import page from '../index.html?raw';
+import { Ui } from '../src/Ui';
+import { CardUi } from '../src/CardUi';
+import { Economy } from '../src/Economy';
+import { composeResolution } from '../src/ProbabilityController';
+import { SideBetSettlement } from '../src/SideBets';
+
+const $ = (id: string): HTMLElement => document.getElementById(id)!;
+
+describe('Ui round popup', () => {
+  let ui: Ui;
+
+  beforeEach(() => {
+    document.body.innerHTML = new DOMParser().parseFromString(page, 'text/html').body.innerHTML;
+    ui = new Ui();
+  });
+
+  it('shows a win with the returned amount and side bets', () => {
+    const sideBets: SideBetSettlement[] = [
+      { id: 'cleanMiss', stake: 5, won: true, payout: 12.5 },
+      { id: 'collapse', stake: 5, won: false, payout: 0 },
+    ];
+    ui.showRoundPopup('A', composeResolution('A', { firstPlane: 'miss' }), 20, 10, () => {}, sideBets);
+
+    expect($('popup-overlay').classList.contains('visible')).toBe(true);
+    expect($('popup-icon').textContent).toBe('🏆');
+    expect($('popup-amount').textContent).toBe('+20 FUN');
+    expect($('popup-amount').className).toBe('win');
+    expect($('popup-subtitle').textContent).toContain('2× returned.');
+    expect($('popup-side').querySelectorAll('.won')).toHaveLength(1);
+    expect($('popup-side').querySelectorAll('.lost')).toHaveLength(1);
+    expect($('popup-btn').className).toBe('win');
+  });
+
+  it('shows a loss with the stake', () => {
+    ui.showRoundPopup('A', composeResolution('A', { firstPlane: 'hitA' }), 0, 10, () => {});
+
+    expect($('popup-icon').textContent).toBe('💥');
+    expect($('popup-amount').textContent).toBe('−10 FUN');
+    expect($('popup-amount').className).toBe('lose');
+    expect($('popup-subtitle').textContent).toContain('Bet lost.');
+    expect($('popup-side').innerHTML).toBe('');
+  });
+
+  it('closes on PLAY AGAIN and calls back exactly once', () => {
+    const onClose = vi.fn();
+    ui.showRoundPopup('B', composeResolution('B', { firstPlane: 'miss' }), 20, 10, onClose);
+
+    $('popup-btn').click();
+    expect($('popup-overlay').classList.contains('visible')).toBe(false);
+    expect(onClose).toHaveBeenCalledTimes(1);
+
+    // the handler unbinds itself: a later popup does not re-fire the old callback
+    const next = vi.fn();
+    ui.showRoundPopup('B', composeResolution('B', { firstPlane: 'hitB' }), 0, 10, next);
+    $('popup-btn').click();
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('routes the popup verify link to the fairness handler', () => {
+    const onFair = vi.fn();
+    ui.onFair(onFair);
+    $('popup-verify').click();
+    $('btn-fair').click();
+    expect(onFair).toHaveBeenCalledTimes(2);
+  });
+
+  it('shows the ladder result and closes the same way', () => {
+    const onClose = vi.fn();
+    ui.showLadderPopup({ tower: 'A', cashedOut: true, waves: 3, returned: 33.1, stake: 10 }, onClose);
+
+    expect($('popup-title').textContent).toBe('Cashed Out!');
+    expect($('popup-amount').textContent).toBe('+33.10 FUN');
+    $('popup-btn').click();
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect($('popup-overlay').classList.contains('visible')).toBe(false);
+  });
+});
+
+describe('CardUi bomb popup', () => {
+  beforeEach(() => {
+    document.body.innerHTML = new DOMParser().parseFromString(page, 'text/html').body.innerHTML;
+  });
+
+  it('does not count a shield-blocked bomb as a safe card', () => {
+    const economy = new Economy();
+    economy.startRound();
+    economy.onSafeSwipe('shield');
+    economy.onBomb();
+    economy.onBomb();
+
+    new CardUi().showBombPopup(economy.roundCost, economy.safeCount, economy.blockedBombs, () => {});
+
+    expect($('popup-subtitle').textContent).toBe('The bomb showed up after 1 safe card and 1 bomb blocked by a shield.');
+    expect($('popup-amount').textContent).toBe('−10 FUN');
+  });
+});
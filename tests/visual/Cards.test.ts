@@ -0,0 +1,38 @@
+import { describe, it } from 'vitest';
+import { advance, capture, expectGolden, useSceneEnvironment } from './Snapshot';
+import { Renderer } from '../../src/Renderer';
+import { BOMB_CARD, CardData, SAFE_CARDS } from '../../src/Card';
+
+/** Idle animations run for this long before a card is captured. */
+const IDLE_MS = 1000;
+
+function createRenderer(): Renderer {
+  document.body.innerHTML = '';
+  const canvas = document.createElement('canvas');
+  document.body.appendChild(canvas);
+  return new Renderer(canvas);
+}
+
+describe('card scenes', () => {
+  useSceneEnvironment();
+
+  const cards: CardData[] = [...SAFE_CARDS, BOMB_CARD];
+  for (const card of cards) {
+    it(`card-${card.kind}`, async () => {
+      const renderer = createRenderer();
+      renderer.showCard(renderer.createCardGraphic(card));
+      await advance(IDLE_MS);
+      expectGolden(`card-${card.kind}`, capture(renderer.app));
+    });
+  }
+
+  it('card-swipe-transition', async () => {
+    const renderer = createRenderer();
+    renderer.showCard(renderer.createCardGraphic(SAFE_CARDS[0]));
+    await advance(IDLE_MS);
+    renderer.swipeToCard(BOMB_CARD, () => {});
+    // 6 of the transition's 24 frames
+    await advance(100);
+    expectGolden('card-swipe-transition', capture(renderer.app));
+  });
+});
@@ -0,0 +1,56 @@
+import { Canvas, createCanvas } from '@napi-rs/canvas';
+
+/**
+ * Vitest setup for the visual suite: backs every jsdom <canvas> with an
+ * @napi-rs/canvas (Skia, CPU raster) so PixiJS can draw without a GPU or a
+ * browser. Only the 2D context exists, so Pixi falls back to its canvas
+ * renderer (registered by importing pixi.js-legacy, see Snapshot.ts).
+ *
+ * Runs before any test module is imported: Pixi probes canvas support at
+ * import time.
+ */
+
+const backing = new WeakMap<HTMLCanvasElement, Canvas>();
+
+/** The Skia canvas behind a jsdom canvas, created on first use. */
+export function backingCanvas(el: HTMLCanvasElement): Canvas {
+  let canvas = backing.get(el);
+  if (!canvas) {
+    canvas = createCanvas(el.width, el.height);
+    backing.set(el, canvas);
+  }
+  return canvas;
+}
+
+const proto = HTMLCanvasElement.prototype;
+
+// Keep the backing canvas sized with the element (Pixi resizes via width / height)
+for (const dim of ['width', 'height'] as const) {
+  const desc = Object.getOwnPropertyDescriptor(proto, dim)!;
+  Object.defineProperty(proto, dim, {
+    configurable: true,
+    get: desc.get,
+    set(this: HTMLCanvasElement, value: number) {
+      desc.set!.call(this, value);
+      const canvas = backing.get(this);
+      if (canvas) canvas[dim] = this[dim];
+    },
+  });
+}
+
+Object.defineProperty(proto, 'getContext', {
+  configurable: true,
+  value(this: HTMLCanvasElement, type: string) {
+    return type === '2d' ? backingCanvas(this).getContext('2d') : null;
+  },
+});
+
+// Pixi draws text and tint canvases onto the view: unwrap jsdom canvases to their backing
+const ctxProto = Object.getPrototypeOf(createCanvas(1, 1).getContext('2d'));
+for (const method of ['drawImage', 'createPattern'] as const) {
+  const original = ctxProto[method];
+  ctxProto[method] = function (this: unknown, source: unknown, ...rest: unknown[]) {
+    const unwrapped = source instanceof HTMLCanvasElement ? backingCanvas(source) : source;
+    return original.call(this, unwrapped, ...rest);
+  };
+}
@@ -0,0 +1,124 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, expect, vi } from 'vitest';
+import * as PIXI from 'pixi.js-legacy';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+import { backingCanvas } from './NodeCanvas';
+import { Rng } from '../../src/Rng';
+
+// ── Harness settings ─────────────────────────────────────────────────────────
+
+/** CSS size of the window every scene is rendered in (portrait phone). */
+export const VIEWPORT = { width: 430, height: 800 };
+
+/** Seed behind Math.random, and so behind every unseeded Rng (e.g. forced-round fx). */
+export const VISUAL_SEED = 0x70face;
+
+/** pixelmatch per-pixel colour distance (0–1) below which pixels count as equal. */
+const PIXEL_THRESHOLD = 0.1;
+
+/**
+ * Share of pixels allowed to differ before a scene fails (~34 px at 430×800).
+ * pixelmatch already skips anti-aliased edge pixels, so this only absorbs
+ * rasterizer drift between machines; a 2 px shift of the tower windows fails.
+ */
+const MAX_DIFF_RATIO = 0.0001;
+
+const HERE = dirname(fileURLToPath(import.meta.url));
+const GOLDEN_DIR = join(HERE, 'golden');
+const DIFF_DIR = join(HERE, '__diff__');
+
+/** UPDATE_GOLDENS=1 rewrites the golden of every scene instead of comparing. */
+const UPDATE = process.env.UPDATE_GOLDENS === '1';
+
+// ── Scene environment ───────────────────────────────────────────────────────
+
+// Every Pixi Application created by the code under test, newest last
+const apps: PIXI.Application[] = [];
+
+PIXI.extensions.add({
+  type: PIXI.ExtensionType.Application,
+  ref: {
+    init(this: PIXI.Application) { apps.push(this); },
+    destroy() {},
+  },
+});
+
+/**
+ * Registers the per-test environment: fixed window size, fake timers driving
+ * requestAnimationFrame / performance.now / setTimeout from 0, a seeded
+ * Math.random, and teardown of every Pixi Application the test created.
+ */
+export function useSceneEnvironment(): void {
+  beforeEach(() => {
+    Object.defineProperty(window, 'innerWidth', { configurable: true, value: VIEWPORT.width });
+    Object.defineProperty(window, 'innerHeight', { configurable: true, value: VIEWPORT.height });
+    vi.useFakeTimers({
+      now: 0,
+      toFake: ['setTimeout', 'clearTimeout', 'requestAnimationFrame', 'cancelAnimationFrame', 'performance', 'Date'],
+    });
+    const rng = new Rng(VISUAL_SEED);
+    vi.spyOn(Math, 'random').mockImplementation(() => rng.next());
+  });
+
+  afterEach(() => {
+    for (const app of apps.splice(0)) app.destroy(false, { children: true });
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+}
+
+/** The most recently created Pixi Application. */
+export function currentApp(): PIXI.Application {
+  const app = apps[apps.length - 1];
+  if (!app) throw new Error('Visual: no Pixi Application has been created');
+  return app;
+}
+
+/** Advances the fake clock by `ms`, running every frame and timer on the way. */
+export async function advance(ms: number): Promise<void> {
+  await vi.advanceTimersByTimeAsync(ms);
+}
+
+/** Renders the app's stage as it stands now and encodes the frame as PNG. */
+export function capture(app: PIXI.Application = currentApp()): Buffer {
+  app.renderer.render(app.stage);
+  return backingCanvas(app.view as HTMLCanvasElement).toBuffer('image/png');
+}
+
+// ── Golden comparison ───────────────────────────────────────────────────────
+
+/**
+ * Compares a rendered frame against tests/visual/golden/<name>.png. A missing
+ * golden fails (run with UPDATE_GOLDENS=1 to create it); on a mismatch the
+ * actual frame and a diff image are written to tests/visual/__diff__/.
+ */
+export function expectGolden(name: string, png: Buffer): void {
+  const goldenPath = join(GOLDEN_DIR, `${name}.png`);
+  if (UPDATE) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(goldenPath, png);
+    return;
+  }
+  if (!existsSync(goldenPath)) {
+    throw new Error(`Visual: no golden for "${name}" – run \`npm run test:visual:update\``);
+  }
+
+  const actual = PNG.sync.read(png);
+  const golden = PNG.sync.read(readFileSync(goldenPath));
+  expect(`${actual.width}×${actual.height}`, `${name}: frame size`).toBe(`${golden.width}×${golden.height}`);
+
+  const diff = new PNG({ width: golden.width, height: golden.height });
+  const mismatched = pixelmatch(golden.data, actual.data, diff.data, golden.width, golden.height, {
+    threshold: PIXEL_THRESHOLD,
+  });
+  const ratio = mismatched / (golden.width * golden.height);
+  if (ratio > MAX_DIFF_RATIO) {
+    mkdirSync(DIFF_DIR, { recursive: true });
+    writeFileSync(join(DIFF_DIR, `${name}.actual.png`), png);
+    writeFileSync(join(DIFF_DIR, `${name}.diff.png`), PNG.sync.write(diff));
+  }
+  expect(ratio, `${name}: ${mismatched} pixels differ (see tests/visual/__diff__/)`).toBeLessThanOrEqual(MAX_DIFF_RATIO);
+}
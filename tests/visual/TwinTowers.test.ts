@@ -0,0 +1,54 @@
+import { describe, it } from 'vitest';
+import page from '../../index.html?raw';
+import { advance, capture, expectGolden, useSceneEnvironment } from './Snapshot';
+import { Game } from '../../src/Game';
+import { MemoryWalletStore, Wallet } from '../../src/Wallet';
+import { RoundEvents, TowerId } from '../../src/ProbabilityController';
+
+interface TowerScene {
+  name: string;
+  /** Forced round to play; omitted for the betting screen. */
+  events?: RoundEvents;
+  /** Tower picked before START (drives the dimming). */
+  tower?: TowerId;
+  /** Milliseconds after START at which the frame is taken. */
+  at: number;
+}
+
+// Times follow Game's tweens at the 430×800 viewport: a first-plane hit lands
+// at 640 ms, a miss reaches the gap at ~616 ms and leaves the screen at ~1.9 s.
+const SCENES: TowerScene[] = [
+  { name: 'towers-betting', tower: 'A', at: 0 },
+  { name: 'towers-betting-b', tower: 'B', at: 0 },
+  { name: 'towers-plane-inbound', events: { firstPlane: 'hitA' }, at: 400 },
+  { name: 'towers-hit-a-explosion', events: { firstPlane: 'hitA' }, at: 800 },
+  { name: 'towers-hit-b-aftermath', events: { firstPlane: 'hitB' }, tower: 'B', at: 1250 },
+  { name: 'towers-miss-dodge', events: { firstPlane: 'miss' }, at: 760 },
+  { name: 'towers-miss-escape', events: { firstPlane: 'miss' }, at: 1500 },
+  { name: 'towers-collapse-overlay', events: { firstPlane: 'miss', collapsedTower: 'B' }, at: 2200 },
+  { name: 'towers-collapse', events: { firstPlane: 'miss', collapsedTower: 'B' }, at: 2750 },
+  { name: 'towers-second-plane-explosion', events: { firstPlane: 'miss', secondPlane: 'hitA' }, at: 3650 },
+];
+
+async function bootGame(): Promise<Game> {
+  document.body.innerHTML = new DOMParser().parseFromString(page, 'text/html').body.innerHTML;
+  const { wallet } = await Wallet.open(new MemoryWalletStore());
+  return new Game(wallet);
+}
+
+describe('Twin Towers scenes', () => {
+  useSceneEnvironment();
+
+  for (const scene of SCENES) {
+    it(scene.name, async () => {
+      const game = await bootGame();
+      if (scene.tower) document.getElementById(scene.tower === 'A' ? 'tower-a' : 'tower-b')!.click();
+      if (scene.events) {
+        game.forceNextRound(scene.events);
+        document.getElementById('btn-play')!.click();
+      }
+      await advance(scene.at);
+      expectGolden(scene.name, capture());
+    });
+  }
+});
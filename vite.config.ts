@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite';
+import { configDefaults, defineConfig } from 'vitest/config';
 
 export default defineConfig({
   base: './',
@@ -10,4 +10,27 @@ export default defineConfig({
     target: 'es2020',
     outDir: 'dist',
   },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Golden-image scenes run on their own: npm run test:visual
+    exclude: [...configDefaults.exclude, 'tests/visual/**'],
+    coverage: {
+      provider: 'v8',
+      include: [
+        'src/ProbabilityController.ts',
+        'src/Economy.ts',
+        'src/OutcomeController.ts',
+        'src/ReelEngine.ts',
+        'src/Card.ts',
+        'src/CardPack.ts',
+        'src/Rng.ts',
+        'src/RandomSource.ts',
+        'src/ProvablyFair.ts',
+        'src/Ui.ts',
+        'src/Hud.ts',
+        'src/CardSimulation.ts',
+      ],
+      reporter: ['text', 'html'],
+    },
+  },
 });
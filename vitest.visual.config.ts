@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Golden-image suite for the PixiJS scenes (see tests/visual/Snapshot.ts)
+export default defineConfig({
+  test: {
+    include: ['tests/visual/**/*.test.ts'],
+    environment: 'jsdom',
+    setupFiles: ['tests/visual/NodeCanvas.ts'],
+    testTimeout: 30_000,
+  },
+});